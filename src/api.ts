@@ -0,0 +1,73 @@
+import { StorageType } from './types';
+
+/**
+ * Workspace events triggered around every upload, including pasted and queued ones:
+ *
+ * ```ts
+ * this.registerEvent(app.workspace.on('pasterly:upload-complete', (event: PasterlyUploadCompleteEvent) => { ... }));
+ * ```
+ */
+export const PASTERLY_EVENTS = {
+	uploadStart: 'pasterly:upload-start',
+	uploadComplete: 'pasterly:upload-complete',
+	uploadFailed: 'pasterly:upload-failed',
+} as const;
+
+/**
+ * Options of `uploadFile` on the plugin instance
+ */
+export interface PasterlyUploadOptions {
+	/** Name of the file, required when uploading an ArrayBuffer. The object key template uses it for {originalName} and {ext}. */
+	fileName?: string;
+	/** MIME type of an ArrayBuffer, guessed from the file name when omitted */
+	mimeType?: string;
+	/** Note the file belongs to. It picks the profile through frontmatter and routing rules; defaults to the active note. */
+	sourcePath?: string;
+	/** Upload to this profile instead of the one the note routes to */
+	profileId?: string;
+	/** Called as bytes are transferred */
+	onProgress?: (loaded: number, total: number) => void;
+	/** Aborting rejects the upload with an error named UploadCancelledError */
+	signal?: AbortSignal;
+}
+
+/**
+ * Result of `uploadFile` on the plugin instance
+ */
+export interface PasterlyUploadResult {
+	/** URL to link to, the same one Pasterly writes into notes: a pasterly:// reference for profiles in private mode */
+	url: string;
+	/** Object key in the bucket, container or repository */
+	key: string;
+	/** Storage type of the profile the file was stored in */
+	provider: StorageType;
+	/** Profile the file was stored in, the backup profile when the upload failed over */
+	profileId: string;
+}
+
+/**
+ * Profile and storage type that uploads for a note go to
+ */
+export interface PasterlyProviderInfo {
+	provider: StorageType;
+	profileId: string;
+	profileName: string;
+}
+
+export interface PasterlyUploadStartEvent {
+	/** The file as passed in, before image processing */
+	file: File;
+	/** Note the upload is for, empty when there is none */
+	sourcePath: string;
+	/** Profile the upload goes to */
+	profileId: string;
+}
+
+export interface PasterlyUploadCompleteEvent extends PasterlyUploadStartEvent {
+	result: PasterlyUploadResult;
+}
+
+export interface PasterlyUploadFailedEvent extends PasterlyUploadStartEvent {
+	/** An UploadError with a `kind` such as auth or network, or an UploadCancelledError */
+	error: Error;
+}
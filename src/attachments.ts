@@ -0,0 +1,53 @@
+/**
+ * How the link to an uploaded attachment is written: an embed that Obsidian renders inline
+ * (video, audio) or a plain markdown link (documents, archives)
+ */
+export type AttachmentOutput = 'embed' | 'link';
+
+/**
+ * Uploads pasted or dropped files of matching MIME types
+ */
+export interface AttachmentRule {
+	mimeType: string;   // One or more comma-separated patterns, e.g. "video/*" or "application/zip, application/x-zip-compressed"
+	output: AttachmentOutput;
+	maxSizeMB: number;  // 0 for no limit
+}
+
+export const DEFAULT_ATTACHMENT_RULES: AttachmentRule[] = [
+	{ mimeType: 'application/pdf', output: 'link', maxSizeMB: 50 },
+	{ mimeType: 'video/*', output: 'embed', maxSizeMB: 500 },
+	{ mimeType: 'audio/*', output: 'embed', maxSizeMB: 100 },
+	{ mimeType: 'application/zip, application/x-zip-compressed', output: 'link', maxSizeMB: 200 },
+];
+
+const matchesMimeType = (pattern: string, mimeType: string): boolean => {
+	const [type, subtype] = pattern.trim().toLowerCase().split('/');
+	const [fileType, fileSubtype] = mimeType.toLowerCase().split('/');
+	return (type === '*' || type === fileType) && (subtype === '*' || subtype === fileSubtype);
+};
+
+/**
+ * Returns the first rule matching the file's MIME type, or null when the file should be left to Obsidian
+ */
+export const findAttachmentRule = (rules: AttachmentRule[], file: File): AttachmentRule | null => {
+	// Files of unknown type only match catch-all rules
+	const mimeType = file.type || 'application/octet-stream';
+	return rules.find(rule => rule.mimeType.split(',').some(pattern => pattern.trim() && matchesMimeType(pattern, mimeType))) ?? null;
+};
+
+/**
+ * Whether the file is within the size limit of its rule
+ */
+export const isWithinSizeLimit = (rule: AttachmentRule, file: File): boolean => {
+	return rule.maxSizeMB <= 0 || file.size <= rule.maxSizeMB * 1024 * 1024;
+};
+
+/**
+ * Builds the markdown for an uploaded attachment
+ */
+export const formatAttachmentLink = (url: string, fileName: string, output: AttachmentOutput): string => {
+	if (output === 'embed') {
+		return `![](${url})`;
+	}
+	return `[${fileName.replace(/[[\]]/g, '\\$&')}](${url})`;
+};
@@ -0,0 +1,102 @@
+import { Platform } from 'obsidian';
+import { S3CredentialSource } from './types';
+
+export interface AwsCredentials {
+	accessKeyId: string;
+	secretAccessKey: string;
+	sessionToken?: string;
+}
+
+interface NodeModules {
+	fs: { promises: { readFile(path: string, encoding: 'utf8'): Promise<string> } };
+	os: { homedir(): string };
+	path: { join(...parts: string[]): string };
+}
+
+/**
+ * Loads a Node module on desktop, where Obsidian runs with Node integration
+ */
+const requireNodeModule = <K extends keyof NodeModules>(name: K): NodeModules[K] => {
+	const nodeRequire = (window as unknown as { require?: (id: string) => unknown }).require;
+	if (!Platform.isDesktopApp || !nodeRequire) {
+		throw new Error('Reading AWS credentials from the environment or ~/.aws is only available on desktop');
+	}
+	return nodeRequire(name) as NodeModules[K];
+};
+
+/**
+ * Reads AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_SESSION_TOKEN.
+ * Apps started from the dock or start menu only see variables set for the whole session, not those of a shell profile.
+ */
+export const readEnvironmentCredentials = (): AwsCredentials => {
+	if (!Platform.isDesktopApp || typeof process === 'undefined') {
+		throw new Error('Reading AWS credentials from the environment is only available on desktop');
+	}
+	const { AWS_ACCESS_KEY_ID: accessKeyId, AWS_SECRET_ACCESS_KEY: secretAccessKey, AWS_SESSION_TOKEN: sessionToken } = process.env;
+	if (!accessKeyId || !secretAccessKey) {
+		throw new Error('AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are not set in the environment Obsidian was started from');
+	}
+	return { accessKeyId, secretAccessKey, sessionToken: sessionToken || undefined };
+};
+
+/**
+ * Reads a profile of an INI-style AWS shared credentials file
+ */
+export const parseSharedCredentials = (content: string, profileName: string): AwsCredentials | null => {
+	let inProfile = false;
+	const values: Record<string, string> = {};
+	content.split(/\r?\n/).forEach((rawLine) => {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#') || line.startsWith(';')) {
+			return;
+		}
+		const section = line.match(/^\[\s*(.+?)\s*\]$/);
+		if (section) {
+			inProfile = section[1] === profileName;
+			return;
+		}
+		const separatorIndex = line.indexOf('=');
+		if (inProfile && separatorIndex > 0) {
+			values[line.substring(0, separatorIndex).trim().toLowerCase()] = line.substring(separatorIndex + 1).trim();
+		}
+	});
+
+	if (!values.aws_access_key_id || !values.aws_secret_access_key) {
+		return null;
+	}
+	return {
+		accessKeyId: values.aws_access_key_id,
+		secretAccessKey: values.aws_secret_access_key,
+		sessionToken: values.aws_session_token || undefined,
+	};
+};
+
+/**
+ * Reads a profile from ~/.aws/credentials, or the file named by AWS_SHARED_CREDENTIALS_FILE
+ * @param profileName - Profile to read, "default" when empty
+ */
+export const readSharedCredentials = async (profileName: string): Promise<AwsCredentials> => {
+	const name = profileName.trim() || 'default';
+	const path = (typeof process !== 'undefined' && process.env.AWS_SHARED_CREDENTIALS_FILE)
+		|| requireNodeModule('path').join(requireNodeModule('os').homedir(), '.aws', 'credentials');
+
+	let content: string;
+	try {
+		content = await requireNodeModule('fs').promises.readFile(path, 'utf8');
+	} catch (error) {
+		throw new Error(`AWS credentials file ${path} could not be read`);
+	}
+	const credentials = parseSharedCredentials(content, name);
+	if (!credentials) {
+		throw new Error(`Profile "${name}" in ${path} has no aws_access_key_id and aws_secret_access_key`);
+	}
+	return credentials;
+};
+
+/**
+ * Returns a credential provider for the S3 client that reads the credentials on first use,
+ * so they are never copied into the plugin settings
+ */
+export const createAwsCredentialProvider = (source: Exclude<S3CredentialSource, 'settings'>, profileName: string): (() => Promise<AwsCredentials>) => {
+	return async () => source === 'environment' ? readEnvironmentCredentials() : readSharedCredentials(profileName);
+};
@@ -0,0 +1,16 @@
+/**
+ * Trims a base URL entered in the settings, adds https:// when no protocol was given and drops trailing slashes
+ * @returns An empty string for an empty value
+ */
+export const normalizeOptionalBaseUrl = (value: string): string => {
+	if (!value.trim()) {
+		return '';
+	}
+
+	const trimmedValue = value.trim();
+	const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmedValue)
+		? trimmedValue
+		: `https://${trimmedValue.replace(/^\/+/, '')}`;
+
+	return withProtocol.replace(/\/+$/, '');
+};
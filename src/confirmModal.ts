@@ -0,0 +1,39 @@
+import { App, Modal, Setting } from 'obsidian';
+
+interface ConfirmModalOptions {
+	title: string;
+	message: string;
+	confirmText: string;
+	onConfirm: () => void;
+}
+
+/**
+ * Asks before a destructive action such as deleting remote objects
+ */
+export class ConfirmModal extends Modal {
+	constructor(app: App, private readonly options: ConfirmModalOptions) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, options } = this;
+		this.titleEl.setText(options.title);
+		contentEl.createEl('p', { text: options.message });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(options.confirmText)
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					options.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
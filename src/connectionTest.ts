@@ -0,0 +1,294 @@
+import { App, Modal, Setting, requestUrl } from 'obsidian';
+import { StorageProfile, StorageProvider } from './types';
+import { createStorageProvider } from './storageProviders';
+import { getMissingConfigMessage } from './profiles';
+import { getKeyTemplatePrefix } from './objectKey';
+import { PRIVATE_REFERENCE_SCHEME } from './privateImages';
+import { toUploadError } from './errors';
+
+export type CheckStatus = 'running' | 'passed' | 'failed' | 'warning' | 'skipped';
+
+export interface CheckStep {
+	name: string;
+	status: CheckStatus;
+	detail: string;
+}
+
+interface ConnectionTestOptions {
+	keyTemplate: string;
+	vaultName: string;
+	deleteProbe: boolean;
+	/** Called whenever a step starts or finishes */
+	onUpdate: (steps: CheckStep[]) => void;
+}
+
+// 1x1 transparent PNG
+const PROBE_IMAGE_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const IMAGE_LOAD_TIMEOUT_MS = 15 * 1000;
+
+const STATUS_ICONS: Record<CheckStatus, string> = {
+	running: '⏳',
+	passed: '✅',
+	failed: '❌',
+	warning: '⚠️',
+	skipped: '⏭️',
+};
+
+const createProbeFile = (): File => {
+	const bytes = Uint8Array.from(atob(PROBE_IMAGE_BASE64), char => char.charCodeAt(0));
+	return new File([bytes], 'pasterly-connection-test.png', { type: 'image/png' });
+};
+
+/**
+ * Translates a provider error into the most likely misconfiguration
+ */
+export const diagnoseError = (error: unknown): string => {
+	const uploadError = toUploadError(error, 'storage');
+	// Ignore the generic hint providers append, it names every possible cause
+	const message = uploadError.message.replace(/\. Check [^.]*\.$/, '');
+	switch (uploadError.kind) {
+		case 'auth':
+			return 'Authentication failed. Check the keys, token or service account.';
+		case 'permission':
+			return 'The credentials may not write to this bucket. Grant them write access.';
+		case 'notFound':
+			return 'The bucket, container or folder does not exist. Check its name.';
+		case 'network':
+			return /Failed to fetch|NetworkError|CORS/i.test(message)
+				? 'The request was blocked before reaching the bucket. Allow the origin app://obsidian.md (and capacitor://localhost on mobile) in the bucket CORS configuration.'
+				: 'The server could not be reached. Check the endpoint or URL and your network connection.';
+		case 'timeout':
+			return 'The server did not answer in time. Check the endpoint or URL and your network connection.';
+		case 'payloadTooLarge':
+			return 'Even the tiny test image was rejected as too large. Check the upload URL or endpoint.';
+		case 'rateLimited':
+			return 'The provider is limiting requests. Wait a moment and test again.';
+		case 'server':
+			return 'The provider failed or is unavailable. Try again later.';
+	}
+
+	// Errors without a known status or code, e.g. redirects to another region or messages of custom endpoints
+	if (/PermanentRedirect|AuthorizationHeaderMalformed|IllegalLocationConstraint|region/i.test(message)) {
+		return 'The bucket lives in a different region or behind a different endpoint. Check the region and endpoint settings.';
+	}
+	if (/certificate|ERR_CONNECTION/i.test(message)) {
+		return 'The server could not be reached. Check the endpoint or URL and your network connection.';
+	}
+	if (/bucket does not exist|status 404|not found/i.test(message)) {
+		return 'The bucket, container or folder does not exist. Check its name.';
+	}
+	if (/status 40[13]|Unauthorized|Forbidden|invalid_grant|access token|credentials|gcloud/i.test(message)) {
+		return 'Authentication failed or the credentials may not write to this bucket. Check the keys, token or service account and their permissions.';
+	}
+	return 'Check the settings of this profile.';
+};
+
+/**
+ * Loads a URL into an image element, the way notes display uploads
+ */
+const loadImage = (url: string): Promise<void> => {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+		const timeout = window.setTimeout(() => reject(new Error('Timed out')), IMAGE_LOAD_TIMEOUT_MS);
+		image.onload = () => {
+			window.clearTimeout(timeout);
+			resolve();
+		};
+		image.onerror = () => {
+			window.clearTimeout(timeout);
+			reject(new Error('Image failed to load'));
+		};
+		image.src = url;
+	});
+};
+
+/**
+ * Checks a profile end to end: configuration, upload, reading the uploaded image back and cleanup.
+ * Uploads a 1x1 PNG next to regular uploads and deletes it again when requested and supported.
+ */
+export const runConnectionTest = async (profile: StorageProfile, options: ConnectionTestOptions): Promise<CheckStep[]> => {
+	const steps: CheckStep[] = [];
+	const start = (name: string) => {
+		const step: CheckStep = { name, status: 'running', detail: '' };
+		steps.push(step);
+		options.onUpdate(steps);
+		return step;
+	};
+	const finish = (step: CheckStep, status: CheckStatus, detail = '') => {
+		step.status = status;
+		step.detail = detail;
+		options.onUpdate(steps);
+	};
+
+	const configStep = start('Configuration');
+	const missingSettingMessage = getMissingConfigMessage(profile);
+	let provider: StorageProvider;
+	try {
+		if (missingSettingMessage) {
+			throw new Error(missingSettingMessage);
+		}
+		provider = createStorageProvider(profile.storageType, profile);
+		finish(configStep, 'passed');
+	} catch (error) {
+		finish(configStep, 'failed', error instanceof Error ? error.message : String(error));
+		return steps;
+	}
+
+	const key = `${getKeyTemplatePrefix(options.keyTemplate, options.vaultName)}pasterly-connection-test-${Date.now()}.png`;
+	const uploadStep = start('Upload test image');
+	let publicUrl: string;
+	try {
+		publicUrl = await provider.uploadImage(createProbeFile(), key);
+		finish(uploadStep, 'passed', key);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		finish(uploadStep, 'failed', `${diagnoseError(error)}\n${message}`);
+		return steps;
+	}
+
+	let displayUrl = publicUrl;
+	if (profile.privateMode) {
+		const privateStep = start('Private image access');
+		try {
+			if (!provider.getPrivateUrl) {
+				throw new Error('This provider cannot serve private images.');
+			}
+			displayUrl = await provider.getPrivateUrl(key);
+			finish(privateStep, 'passed', `Notes store ${PRIVATE_REFERENCE_SCHEME} references, the public URL is not needed`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			finish(privateStep, 'failed', `${diagnoseError(error)}\n${message}`);
+			displayUrl = '';
+		}
+	} else {
+		const urlStep = start('Public URL');
+		try {
+			const response = await requestUrl({ url: publicUrl, method: 'GET', throw: false });
+			if (response.status === 403 || response.status === 401) {
+				finish(urlStep, 'failed', `${publicUrl} returned ${response.status}. The bucket does not allow public reads. Make it public, set a public base URL or CDN, or enable private mode.`);
+			} else if (response.status === 404) {
+				finish(urlStep, 'failed', `${publicUrl} returned 404. The public base URL or CDN URL does not point at this bucket.`);
+			} else if (response.status < 200 || response.status >= 300) {
+				finish(urlStep, 'failed', `${publicUrl} returned ${response.status}.`);
+			} else {
+				finish(urlStep, 'passed', publicUrl);
+			}
+		} catch (error) {
+			finish(urlStep, 'failed', `${publicUrl} could not be reached: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		const corsStep = start('CORS');
+		try {
+			await fetch(publicUrl, { mode: 'cors', cache: 'no-store' });
+			finish(corsStep, 'passed');
+		} catch (error) {
+			// Image tags load without CORS, so only features that read image data are affected
+			finish(corsStep, 'warning', 'The bucket does not send CORS headers for this origin. Images still display, but plugins that read image data may fail.');
+		}
+	}
+
+	if (displayUrl) {
+		const displayStep = start('Display in Obsidian');
+		try {
+			await loadImage(displayUrl);
+			finish(displayStep, 'passed');
+		} catch (error) {
+			finish(displayStep, 'failed', `The image could not be displayed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+		if (displayUrl.startsWith('blob:')) {
+			URL.revokeObjectURL(displayUrl);
+		}
+	}
+
+	const deleteStep = start('Delete test image');
+	if (!options.deleteProbe) {
+		finish(deleteStep, 'skipped', `Kept ${key}`);
+	} else if (!provider.deleteImage) {
+		finish(deleteStep, 'skipped', `This provider cannot delete images. Remove ${key} manually.`);
+	} else {
+		try {
+			await provider.deleteImage(key);
+			finish(deleteStep, 'passed');
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			finish(deleteStep, 'warning', `Uploads work, but deleting failed. Deleting from the upload history will not work either.\n${message}`);
+		}
+	}
+
+	return steps;
+};
+
+/**
+ * Runs the connection test of a profile and shows the result of every step
+ */
+export class ConnectionTestModal extends Modal {
+	private deleteProbe = true;
+	private running = false;
+
+	constructor(
+		app: App,
+		private readonly profile: StorageProfile,
+		private readonly keyTemplate: string
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		this.titleEl.setText(`Test connection: ${this.profile.name}`);
+		this.render([]);
+		this.run();
+	}
+
+	private async run() {
+		if (this.running) return;
+		this.running = true;
+		try {
+			await runConnectionTest(this.profile, {
+				keyTemplate: this.keyTemplate,
+				vaultName: this.app.vault.getName(),
+				deleteProbe: this.deleteProbe,
+				onUpdate: steps => this.render(steps),
+			});
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private render(steps: CheckStep[]) {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const listEl = contentEl.createEl('ul');
+		steps.forEach((step) => {
+			const itemEl = listEl.createEl('li', { text: `${STATUS_ICONS[step.status]} ${step.name}` });
+			if (step.detail) {
+				step.detail.split('\n').forEach(line => itemEl.createDiv({ text: line, cls: 'setting-item-description' }));
+			}
+		});
+
+		const failed = steps.some(step => step.status === 'failed');
+		const done = steps.length > 0 && !steps.some(step => step.status === 'running');
+		if (done) {
+			contentEl.createEl('p', { text: failed ? 'Fix the first failed step and run the test again.' : 'Everything works.' });
+		}
+
+		new Setting(contentEl)
+			.setName('Delete test image afterwards')
+			.addToggle(toggle => toggle
+				.setValue(this.deleteProbe)
+				.onChange(value => this.deleteProbe = value));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Run again')
+				.setDisabled(!done)
+				.onClick(() => this.run()))
+			.addButton(button => button
+				.setButtonText('Close')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,285 @@
+/**
+ * Thrown when an upload is cancelled by the user
+ */
+export class UploadCancelledError extends Error {
+	constructor() {
+		super('Upload cancelled');
+		this.name = 'UploadCancelledError';
+	}
+}
+
+/**
+ * Throws UploadCancelledError if the signal was aborted
+ */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+	if (signal?.aborted) {
+		throw new UploadCancelledError();
+	}
+};
+
+/**
+ * Rejects with UploadCancelledError as soon as the signal aborts. Requests made with requestUrl cannot be
+ * aborted, so the request keeps running in the background and its result is ignored.
+ */
+export const cancellable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+	if (!signal) {
+		return promise;
+	}
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(new UploadCancelledError());
+		if (signal.aborted) {
+			onAbort();
+			return;
+		}
+		signal.addEventListener('abort', onAbort);
+		promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+};
+
+/**
+ * What went wrong with an upload, which decides whether it is retried and how the user can fix it
+ */
+export type UploadErrorKind =
+	| 'auth'             // Credentials missing, wrong or expired
+	| 'permission'       // Credentials valid but not allowed to write
+	| 'notFound'         // Bucket, container, repository or endpoint does not exist
+	| 'network'          // No connection, DNS failure, connection reset
+	| 'timeout'          // No response within the upload timeout
+	| 'payloadTooLarge'  // Rejected by the provider's size limit
+	| 'conflict'         // Another file already exists under the key and cannot be overwritten
+	| 'rateLimited'      // Too many requests
+	| 'server'           // The provider failed or is unavailable (5xx)
+	| 'unknown';
+
+// Temporary failures that usually succeed when tried again
+const TRANSIENT_KINDS: UploadErrorKind[] = ['network', 'timeout', 'rateLimited', 'server'];
+
+/**
+ * A failed upload, classified so it can be retried and reported with a specific fix
+ */
+export class UploadError extends Error {
+	constructor(
+		readonly kind: UploadErrorKind,
+		message: string,
+		readonly details: {
+			/** HTTP status of the failed request, when there was a response */
+			status?: number;
+			/** How long the provider asked to wait before retrying */
+			retryAfterMs?: number;
+		} = {}
+	) {
+		super(message);
+		this.name = 'UploadError';
+	}
+
+	/**
+	 * Whether trying again later may succeed
+	 */
+	get isTransient(): boolean {
+		return TRANSIENT_KINDS.includes(this.kind);
+	}
+}
+
+/**
+ * Maps an HTTP status of a failed request to an error kind
+ */
+export const getErrorKindForStatus = (status: number): UploadErrorKind => {
+	switch (status) {
+		case 401:
+			return 'auth';
+		case 403:
+			return 'permission';
+		case 404:
+			return 'notFound';
+		case 408:
+			return 'timeout';
+		case 413:
+			return 'payloadTooLarge';
+		case 429:
+			return 'rateLimited';
+		default:
+			return status >= 500 ? 'server' : 'unknown';
+	}
+};
+
+/**
+ * Reads a Retry-After header given in seconds or as an HTTP date
+ */
+const parseRetryAfter = (headers: Record<string, string> = {}): number | undefined => {
+	const value = headers['retry-after'] || headers['Retry-After'];
+	if (!value) {
+		return undefined;
+	}
+	const seconds = Number(value);
+	const delay = isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+	return isNaN(delay) ? undefined : Math.max(0, delay);
+};
+
+// Provider error codes that tell more than the HTTP status, e.g. Azure answers 403 for both bad keys and missing permissions
+const ERROR_CODE_KINDS: Record<string, UploadErrorKind> = {
+	AuthenticationFailed: 'auth',
+	AuthorizationPermissionMismatch: 'permission',
+	ContainerNotFound: 'notFound',
+	ServerBusy: 'rateLimited',
+	InvalidAccessKeyId: 'auth',
+	SignatureDoesNotMatch: 'auth',
+	ExpiredToken: 'auth',
+	InvalidToken: 'auth',
+	CredentialsProviderError: 'auth',
+	AccessDenied: 'permission',
+	NoSuchBucket: 'notFound',
+	EntityTooLarge: 'payloadTooLarge',
+	SlowDown: 'rateLimited',
+	TimeoutError: 'timeout',
+	RequestTimeout: 'timeout',
+	'storage/unauthenticated': 'auth',
+	'storage/unauthorized': 'permission',
+	'storage/bucket-not-found': 'notFound',
+	'storage/project-not-found': 'notFound',
+	'storage/retry-limit-exceeded': 'network',
+	'storage/server-file-wrong-size': 'server',
+};
+
+const getErrorKindForCode = (code?: string): UploadErrorKind | undefined => {
+	return code && Object.prototype.hasOwnProperty.call(ERROR_CODE_KINDS, code) ? ERROR_CODE_KINDS[code] : undefined;
+};
+
+/**
+ * Builds the error for a request that was answered with a failure status
+ * @param detail - Provider error code or message to show next to the status, e.g. "AuthenticationFailed"
+ */
+export const createHttpError = (status: number, headers?: Record<string, string>, detail = ''): UploadError => {
+	return new UploadError(
+		getErrorKindForCode(detail) ?? getErrorKindForStatus(status),
+		`status ${status}${detail ? ` (${detail})` : ''}`,
+		{ status, retryAfterMs: parseRetryAfter(headers) }
+	);
+};
+
+// Messages of failed requests that never reached the server
+const NETWORK_ERROR_PATTERN = /net::ERR_|Failed to fetch|NetworkError|ENOTFOUND|ECONNREFUSED|ECONNRESET|EAI_AGAIN|getaddrinfo|socket hang up/i;
+
+/**
+ * Turns anything a provider threw or rejected with into an UploadError
+ * @param target - Name of the storage the upload went to, e.g. "GCS"
+ */
+export const toUploadError = (error: unknown, target: string): UploadError => {
+	if (error instanceof UploadError) {
+		return error;
+	}
+
+	const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
+	const { code, name, $metadata } = (typeof error === 'object' && error !== null ? error : {}) as {
+		code?: string;
+		name?: string;
+		$metadata?: { httpStatusCode?: number };
+	};
+	const status = $metadata?.httpStatusCode;
+	let kind: UploadErrorKind = getErrorKindForCode(code) ?? getErrorKindForCode(name) ?? 'unknown';
+	if (kind === 'unknown' && status) {
+		kind = getErrorKindForStatus(status);
+	}
+	if (kind === 'unknown' && NETWORK_ERROR_PATTERN.test(message)) {
+		kind = 'network';
+	}
+	return new UploadError(kind, `Failed to upload to ${target}: ${message}`, { status });
+};
+
+/**
+ * Waits for the given time, rejecting with UploadCancelledError when the signal aborts first
+ */
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			window.clearTimeout(timer);
+			reject(new UploadCancelledError());
+		};
+		const timer = window.setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort);
+	});
+};
+
+/**
+ * Runs one attempt, aborting it and failing with a timeout error once it makes no progress for timeoutMs.
+ * The attempt calls onActivity whenever bytes were transferred, which restarts the timer.
+ * Providers that cannot abort a running request finish it in the background, its result is ignored.
+ */
+const withTimeout = <T>(
+	attempt: (signal: AbortSignal, onActivity: () => void) => Promise<T>,
+	timeoutMs: number,
+	target: string,
+	signal?: AbortSignal
+): Promise<T> => {
+	const controller = new AbortController();
+	const forwardAbort = () => controller.abort();
+	signal?.addEventListener('abort', forwardAbort);
+
+	return new Promise<T>((resolve, reject) => {
+		let timer: number | null = null;
+		let settled = false;
+		const restartTimer = () => {
+			if (settled || timeoutMs <= 0) {
+				return;
+			}
+			if (timer !== null) {
+				window.clearTimeout(timer);
+			}
+			timer = window.setTimeout(() => {
+				controller.abort();
+				reject(new UploadError('timeout', `Failed to upload to ${target}: no progress for ${Math.round(timeoutMs / 1000)} seconds`));
+			}, timeoutMs);
+		};
+		restartTimer();
+		attempt(controller.signal, restartTimer).then(resolve, reject).finally(() => {
+			settled = true;
+			if (timer !== null) {
+				window.clearTimeout(timer);
+			}
+			signal?.removeEventListener('abort', forwardAbort);
+		});
+	});
+};
+
+// Backoff between attempts: 1 s, 2 s, 4 s, ... capped, plus up to 20 % jitter
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30 * 1000;
+
+/**
+ * Runs an upload attempt with a timeout, retrying transient failures with exponential backoff
+ * @param attempt - Starts one attempt; aborting its signal should stop the attempt, and it reports progress through onActivity
+ * @param options.retries - Attempts after the first one
+ * @param options.timeoutMs - How long an attempt may go without progress, 0 for no limit
+ * @param options.onRetry - Called before waiting for the next attempt
+ */
+export const withRetry = async <T>(
+	attempt: (signal: AbortSignal, onActivity: () => void) => Promise<T>,
+	options: {
+		retries: number;
+		timeoutMs: number;
+		signal?: AbortSignal;
+		target: string;
+		onRetry?: (error: UploadError, attemptNumber: number, delayMs: number) => void;
+	}
+): Promise<T> => {
+	for (let attemptNumber = 1; ; attemptNumber++) {
+		throwIfCancelled(options.signal);
+		try {
+			return await withTimeout(attempt, options.timeoutMs, options.target, options.signal);
+		} catch (error) {
+			if (error instanceof UploadCancelledError) {
+				throw error;
+			}
+			const uploadError = toUploadError(error, options.target);
+			if (!uploadError.isTransient || attemptNumber > options.retries) {
+				throw uploadError;
+			}
+			const backoff = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attemptNumber - 1), RETRY_MAX_DELAY_MS);
+			const delay = Math.min(Math.max(uploadError.details.retryAfterMs ?? 0, backoff * (1 + Math.random() * 0.2)), RETRY_MAX_DELAY_MS);
+			options.onRetry?.(uploadError, attemptNumber, delay);
+			await wait(delay, options.signal);
+		}
+	}
+};
@@ -0,0 +1,243 @@
+import { arrayBufferToBase64, requestUrl } from 'obsidian';
+import { UploadError } from './errors';
+
+/**
+ * Fields of a Google Cloud service account key file used for signing
+ */
+export interface ServiceAccountKey {
+	client_email: string;
+	private_key: string;
+	token_uri?: string;
+}
+
+export interface AccessToken {
+	token: string;
+	expiresAt: number;
+}
+
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token';
+// read_write covers uploads, listing and deletes without granting ACL changes
+const STORAGE_SCOPE = 'https://www.googleapis.com/auth/devstorage.read_write';
+// Used when the lifetime of a gcloud token cannot be looked up
+const FALLBACK_TOKEN_LIFETIME_MS = 10 * 60 * 1000;
+
+// Common paths for gcloud on different systems
+const GCLOUD_PATHS = [
+	'/opt/homebrew/bin/gcloud',           // macOS Apple Silicon (Homebrew)
+	'/usr/local/bin/gcloud',              // macOS Intel (Homebrew)
+	'/usr/bin/gcloud',                    // Linux system
+	'/snap/bin/gcloud',                   // Linux snap
+	'gcloud'                              // Fallback to PATH
+];
+
+// The auto-detected gcloud binary that worked last, tried first next time
+let workingGcloudPath: string | null = null;
+
+/**
+ * Gets access token from gcloud CLI
+ * Executes: gcloud auth print-access-token
+ * Tries multiple common paths since GUI apps may not have the same PATH as terminal
+ * @param customPath - gcloud binary to use instead of searching the common paths
+ */
+export async function getAccessTokenFromGcloud(customPath = ''): Promise<string> {
+	const { execFile } = require('child_process');
+
+	const gcloudPaths = customPath.trim()
+		? [customPath.trim()]
+		: (workingGcloudPath ? [workingGcloudPath] : []).concat(GCLOUD_PATHS.filter(path => path !== workingGcloudPath));
+
+	return new Promise((resolve, reject) => {
+		const tryGcloudPath = (index: number) => {
+			if (index >= gcloudPaths.length) {
+				reject(new Error(customPath.trim()
+					? `gcloud CLI not found at ${customPath.trim()}. Check the gcloud path setting.`
+					: 'gcloud CLI not found. Please install Google Cloud SDK or set the gcloud path.'));
+				return;
+			}
+
+			const gcloudPath = gcloudPaths[index];
+			// No shell, so a path from the settings is only ever run as a program
+			execFile(gcloudPath, ['auth', 'print-access-token'], (error: Error | null, stdout: string, stderr: string) => {
+				// gcloud was found but has no valid login, other paths would not help
+				if (error && /auth login|reauthenticat/i.test(stderr)) {
+					if (!customPath.trim()) {
+						workingGcloudPath = gcloudPath;
+					}
+					reject(new UploadError('auth', 'gcloud is not logged in or its login expired. Run "gcloud auth login"'));
+					return;
+				}
+				if (error) {
+					// Try next path
+					tryGcloudPath(index + 1);
+					return;
+				}
+				const token = stdout.trim();
+				if (!token) {
+					reject(new Error('Empty access token returned from gcloud CLI'));
+					return;
+				}
+				if (!customPath.trim()) {
+					workingGcloudPath = gcloudPath;
+				}
+				resolve(token);
+			});
+		};
+
+		tryGcloudPath(0);
+	});
+}
+
+/**
+ * Runs `gcloud auth login`, which opens the browser to sign in again
+ * @param customPath - gcloud binary to use instead of the one found for access tokens
+ */
+export const runGcloudAuthLogin = (customPath = ''): Promise<void> => {
+	const nodeRequire = (window as unknown as { require?: (id: string) => { execFile: (file: string, args: string[], callback: (error: Error | null) => void) => void } }).require;
+	if (!nodeRequire) {
+		return Promise.reject(new Error('gcloud can only be run on desktop'));
+	}
+	const gcloudPath = customPath.trim() || workingGcloudPath || 'gcloud';
+	return new Promise((resolve, reject) => {
+		nodeRequire('child_process').execFile(gcloudPath, ['auth', 'login'], (error) => {
+			if (error) {
+				reject(new Error(`gcloud auth login failed: ${error.message}`));
+				return;
+			}
+			resolve();
+		});
+	});
+};
+
+/**
+ * Gets a gcloud access token together with its expiry, so it can be reused until shortly before it expires
+ */
+export const getGcloudAccessToken = async (customPath = ''): Promise<AccessToken> => {
+	const token = await getAccessTokenFromGcloud(customPath);
+	try {
+		// gcloud hands out its own cached token, which may already be partly used up
+		const response = await requestUrl({
+			url: `https://oauth2.googleapis.com/tokeninfo?access_token=${encodeURIComponent(token)}`,
+			method: 'GET',
+			throw: false,
+		});
+		const expiresIn = Number(response.status === 200 ? response.json.expires_in : 0);
+		if (expiresIn > 0) {
+			return { token, expiresAt: Date.now() + expiresIn * 1000 };
+		}
+	} catch (error) {
+		console.warn('Failed to look up gcloud token lifetime:', error);
+	}
+	return { token, expiresAt: Date.now() + FALLBACK_TOKEN_LIFETIME_MS };
+};
+
+/**
+ * Parses the JSON key file of a service account
+ */
+export const parseServiceAccountKey = (json: string): ServiceAccountKey => {
+	let parsed: Partial<ServiceAccountKey>;
+	try {
+		parsed = JSON.parse(json);
+	} catch (error) {
+		throw new Error('GCS service account key is not valid JSON');
+	}
+	if (!parsed.client_email || !parsed.private_key) {
+		throw new Error('GCS service account key must contain client_email and private_key');
+	}
+	return parsed as ServiceAccountKey;
+};
+
+const base64UrlEncode = (data: ArrayBuffer | string): string => {
+	const buffer = typeof data === 'string' ? new TextEncoder().encode(data).buffer : data;
+	return arrayBufferToBase64(buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const toHex = (buffer: ArrayBuffer): string => {
+	return Array.from(new Uint8Array(buffer)).map(byte => `0${byte.toString(16)}`.slice(-2)).join('');
+};
+
+/**
+ * Signs data with a service account's private key (RSASSA-PKCS1-v1_5 with SHA-256)
+ */
+export class ServiceAccountSigner {
+	private cryptoKey: Promise<CryptoKey> | null = null;
+
+	constructor(readonly key: ServiceAccountKey) {}
+
+	private importKey(): Promise<CryptoKey> {
+		if (!this.cryptoKey) {
+			const base64 = this.key.private_key
+				.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+				.replace(/\\n/g, '')
+				.replace(/\s+/g, '');
+			const der = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+			this.cryptoKey = crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign']);
+		}
+		return this.cryptoKey;
+	}
+
+	async sign(data: string): Promise<ArrayBuffer> {
+		return crypto.subtle.sign('RSASSA-PKCS1-v1_5', await this.importKey(), new TextEncoder().encode(data));
+	}
+
+	/**
+	 * Exchanges a signed JWT for an OAuth access token
+	 * @see https://developers.google.com/identity/protocols/oauth2/service-account#httprest
+	 */
+	async getAccessToken(): Promise<AccessToken> {
+		const tokenUri = this.key.token_uri || DEFAULT_TOKEN_URI;
+		const issuedAt = Math.floor(Date.now() / 1000);
+		const unsignedJwt = `${base64UrlEncode(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64UrlEncode(JSON.stringify({
+			iss: this.key.client_email,
+			scope: STORAGE_SCOPE,
+			aud: tokenUri,
+			iat: issuedAt,
+			exp: issuedAt + 3600,
+		}))}`;
+		const jwt = `${unsignedJwt}.${base64UrlEncode(await this.sign(unsignedJwt))}`;
+
+		const response = await requestUrl({
+			url: tokenUri,
+			method: 'POST',
+			contentType: 'application/x-www-form-urlencoded',
+			body: `grant_type=${encodeURIComponent('urn:ietf:params:oauth:grant-type:jwt-bearer')}&assertion=${jwt}`,
+			throw: false,
+		});
+		if (response.status < 200 || response.status >= 300) {
+			throw new UploadError(
+				response.status >= 500 ? 'server' : 'auth',
+				`Service account token exchange failed with status ${response.status}: ${response.text.substring(0, 200)}`,
+				{ status: response.status }
+			);
+		}
+		const { access_token: token, expires_in: expiresIn } = response.json as { access_token: string; expires_in: number };
+		return { token, expiresAt: Date.now() + expiresIn * 1000 };
+	}
+
+	/**
+	 * Builds a V4 signed GET URL for an object
+	 * @param encodedPath - `/<bucket>/<percent-encoded key>`
+	 * @see https://cloud.google.com/storage/docs/access-control/signing-urls-manually
+	 */
+	async getSignedUrl(encodedPath: string, expiresInSeconds: number): Promise<string> {
+		const host = 'storage.googleapis.com';
+		const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+		const credentialScope = `${timestamp.substring(0, 8)}/auto/storage/goog4_request`;
+		const query = [
+			['X-Goog-Algorithm', 'GOOG4-RSA-SHA256'],
+			['X-Goog-Credential', `${this.key.client_email}/${credentialScope}`],
+			['X-Goog-Date', timestamp],
+			['X-Goog-Expires', expiresInSeconds.toString()],
+			['X-Goog-SignedHeaders', 'host'],
+		].map(([name, value]) => `${name}=${encodeURIComponent(value)}`).join('&');
+
+		const canonicalRequest = ['GET', encodedPath, query, `host:${host}`, '', 'host', 'UNSIGNED-PAYLOAD'].join('\n');
+		const stringToSign = [
+			'GOOG4-RSA-SHA256',
+			timestamp,
+			credentialScope,
+			toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalRequest))),
+		].join('\n');
+
+		return `https://${host}${encodedPath}?${query}&X-Goog-Signature=${toHex(await this.sign(stringToSign))}`;
+	}
+}
@@ -0,0 +1,132 @@
+import { getExtensionForMimeType } from './localImages';
+
+export type ImageOutputFormat = 'original' | 'webp' | 'jpeg' | 'avif';
+
+export interface ImageProcessingOptions {
+	maxWidth: number;       // 0 for no limit
+	maxHeight: number;      // 0 for no limit
+	format: ImageOutputFormat;
+	quality: number;        // 1-100, used by lossy formats
+	stripMetadata: boolean; // Re-encode even when nothing else changes to drop EXIF/GPS data
+}
+
+// Animated and vector images would be flattened by a canvas round-trip
+const PASSTHROUGH_TYPES = ['image/gif', 'image/svg+xml'];
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+	return new Promise((resolve, reject) => {
+		const objectUrl = URL.createObjectURL(file);
+		const image = new Image();
+		image.onload = () => {
+			URL.revokeObjectURL(objectUrl);
+			resolve(image);
+		};
+		image.onerror = () => {
+			URL.revokeObjectURL(objectUrl);
+			reject(new Error(`Failed to decode ${file.name}`));
+		};
+		image.src = objectUrl;
+	});
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> => {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob(
+			blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+			type,
+			quality
+		);
+	});
+};
+
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+/**
+ * Reads the pixel dimensions of an image
+ * @returns null for other files and images that cannot be decoded
+ */
+export const getImageDimensions = async (file: File): Promise<ImageDimensions | null> => {
+	if (!file.type.startsWith('image/')) {
+		return null;
+	}
+	try {
+		const image = await loadImage(file);
+		return { width: image.naturalWidth, height: image.naturalHeight };
+	} catch (error) {
+		console.warn('Failed to read image dimensions:', error);
+		return null;
+	}
+};
+
+/**
+ * Whether the platform's canvas can encode the given MIME type.
+ * Browsers silently fall back to PNG for types they cannot encode.
+ */
+export const canEncode = (mimeType: string): boolean => {
+	const canvas = document.createElement('canvas');
+	canvas.width = canvas.height = 1;
+	return canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+};
+
+/**
+ * Resizes and re-encodes an image before upload.
+ * Uses a canvas so it works the same on desktop and mobile; re-encoding drops EXIF/GPS metadata.
+ * Returns the original file when no processing is needed or the image cannot be decoded.
+ */
+export const processImage = async (file: File, options: ImageProcessingOptions): Promise<File> => {
+	if (!file.type.startsWith('image/') || PASSTHROUGH_TYPES.includes(file.type)) {
+		return file;
+	}
+
+	let image: HTMLImageElement;
+	try {
+		image = await loadImage(file);
+	} catch (error) {
+		console.warn('Skipping image processing:', error);
+		return file;
+	}
+
+	const scale = Math.min(
+		1,
+		options.maxWidth > 0 ? options.maxWidth / image.naturalWidth : 1,
+		options.maxHeight > 0 ? options.maxHeight / image.naturalHeight : 1
+	);
+	const requestedType = options.format === 'original' ? file.type : `image/${options.format}`;
+	if (scale >= 1 && requestedType === file.type && !options.stripMetadata) {
+		return file;
+	}
+
+	// Fall back to the original type, then PNG, when the requested format cannot be encoded here
+	const targetType = [requestedType, file.type, 'image/png'].find(canEncode) || 'image/png';
+
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+	canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+	const context = canvas.getContext('2d');
+	if (!context) {
+		return file;
+	}
+	if (targetType === 'image/jpeg') {
+		// JPEG has no alpha channel, so paint transparent areas white instead of black
+		context.fillStyle = '#ffffff';
+		context.fillRect(0, 0, canvas.width, canvas.height);
+	}
+	context.imageSmoothingQuality = 'high';
+	context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+	const blob = await canvasToBlob(canvas, targetType, Math.min(Math.max(options.quality, 1), 100) / 100);
+
+	// A pure re-encode that grew the file is not worth it unless metadata must be stripped
+	if (scale >= 1 && targetType === file.type && blob.size >= file.size && !options.stripMetadata) {
+		return file;
+	}
+
+	const baseName = file.name.includes('.') ? file.name.substring(0, file.name.lastIndexOf('.')) : file.name;
+	return new File([blob], `${baseName || 'image'}.${getExtensionForMimeType(targetType)}`, {
+		type: targetType,
+		lastModified: file.lastModified,
+	});
+};
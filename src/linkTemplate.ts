@@ -0,0 +1,137 @@
+import { App, Modal, Setting, moment } from 'obsidian';
+
+export type LinkTemplatePreset = 'markdown' | 'markdownWidth' | 'html' | 'figure';
+
+export const LINK_TEMPLATE_PRESETS: Record<LinkTemplatePreset, { name: string; template: string }> = {
+	markdown: { name: 'Markdown', template: '![{alt}]({url})' },
+	markdownWidth: { name: 'Markdown with width', template: '![{alt}|{size}]({url})' },
+	html: { name: 'HTML <img>', template: '<img src="{url}" alt="{alt}" width="{width}" height="{height}">' },
+	figure: { name: 'Figure with caption', template: '<figure><img src="{url}" alt="{alt}" width="{width}" height="{height}"><figcaption>{alt}</figcaption></figure>' },
+};
+
+export const DEFAULT_LINK_TEMPLATE = LINK_TEMPLATE_PRESETS.markdown.template;
+
+export interface LinkTemplateContext {
+	url: string;
+	alt: string;
+	fileName: string;
+	width?: number;   // Pixel dimensions, unknown for images that could not be decoded
+	height?: number;
+	size: number;     // The fixed size setting, 0 when unset
+}
+
+const TEMPLATE_VARIABLE = /\{(\w+)(?::([^}]*))?\}/g;
+
+const escapeHtml = (value: string): string => {
+	return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const escapeMarkdown = (value: string): string => {
+	return value.replace(/[[\]|]/g, '\\$&');
+};
+
+/**
+ * Returns the preset a template was taken from, or null for custom templates
+ */
+export const findLinkTemplatePreset = (template: string): LinkTemplatePreset | null => {
+	return (Object.keys(LINK_TEMPLATE_PRESETS) as LinkTemplatePreset[]).find(preset => LINK_TEMPLATE_PRESETS[preset].template === template) ?? null;
+};
+
+/**
+ * Builds the markdown or HTML inserted for an uploaded image.
+ * Supported variables: {url}, {alt}, {filename}, {width}, {height}, {size}, {ext}, {date[:FORMAT]}.
+ * `{size}` is the fixed size setting, or the image width when no fixed size is set.
+ * Without either, a `|{size}` in the template is left out so no empty size reaches the link.
+ */
+export const renderLinkTemplate = (template: string, context: LinkTemplateContext): string => {
+	// Text values are escaped for the syntax they end up in
+	const escape = template.trim().startsWith('<') ? escapeHtml : escapeMarkdown;
+	const dotIndex = context.fileName.lastIndexOf('.');
+	const size = context.size > 0 ? context.size : context.width;
+	const withSize = size ? template : template.replace(/\|\{size\}/g, '');
+	return withSize.replace(TEMPLATE_VARIABLE, (match: string, name: string, argument?: string) => {
+		switch (name) {
+			case 'url':
+				return context.url;
+			case 'alt':
+				return escape(context.alt);
+			case 'filename':
+				return escape(context.fileName);
+			case 'width':
+				return context.width?.toString() ?? '';
+			case 'height':
+				return context.height?.toString() ?? '';
+			case 'size':
+				return size?.toString() ?? '';
+			case 'ext':
+				return dotIndex > 0 ? context.fileName.substring(dotIndex + 1).toLowerCase() : '';
+			case 'date':
+				return moment().format(argument || 'YYYY-MM-DD');
+			default:
+				return match;
+		}
+	});
+};
+
+/**
+ * Asks for the alt text of an image that was just uploaded
+ */
+export class AltTextModal extends Modal {
+	private alt = '';
+	private previewUrl: string | null = null;
+
+	constructor(app: App, private readonly file: File, private readonly onSubmit: (alt: string) => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText('Describe the image');
+
+		this.previewUrl = URL.createObjectURL(this.file);
+		contentEl.createEl('img', { attr: { src: this.previewUrl, alt: '', style: 'max-width: 100%; max-height: 240px;' } });
+
+		new Setting(contentEl)
+			.setName('Alt text')
+			.setDesc('Read by screen readers and shown when the image cannot load')
+			.addText((text) => {
+				text.onChange(value => this.alt = value);
+				text.inputEl.style.width = '100%';
+				text.inputEl.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						this.close();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Skip')
+				.onClick(() => {
+					this.alt = '';
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('Insert')
+				.setCta()
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		if (this.previewUrl) {
+			URL.revokeObjectURL(this.previewUrl);
+		}
+		this.contentEl.empty();
+		// Closing with Escape inserts the text typed so far, the upload already happened
+		this.onSubmit(this.alt.trim());
+	}
+}
+
+/**
+ * Opens the alt text modal and resolves with the entered text, empty when skipped
+ */
+export const promptForAltText = (app: App, file: File): Promise<string> => {
+	return new Promise(resolve => new AltTextModal(app, file, resolve).open());
+};
@@ -0,0 +1,143 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { findEmbeddedLocalImages, findNotesEmbedding, readVaultFile, replaceEmbedsInNote } from './localImages';
+
+/**
+ * Notes and the local images they embed
+ */
+export interface MigrationPlan {
+	notes: { note: TFile; images: TFile[] }[];
+	images: TFile[];
+}
+
+export interface MigrationResult {
+	uploaded: number;
+	failed: number;
+	rewrittenNotes: number;
+	trashed: number;
+}
+
+interface MigrationOptions {
+	/** Uploads the file and returns the markdown that replaces the local embed */
+	upload: (file: File, sourcePath: string) => Promise<string>;
+	trashLocalFiles: boolean;
+	onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Collects every local image embedded in the given notes
+ */
+export const planLocalImageMigration = (app: App, notes: TFile[]): MigrationPlan => {
+	const plannedNotes = notes
+		.map(note => ({ note, images: findEmbeddedLocalImages(app, note) }))
+		.filter(entry => entry.images.length > 0);
+	const images = Array.from(new Set(plannedNotes.reduce<TFile[]>((all, entry) => all.concat(entry.images), [])));
+	return { notes: plannedNotes, images };
+};
+
+/**
+ * Uploads each planned image once and rewrites its embeds in every planned note
+ */
+export const runLocalImageMigration = async (app: App, plan: MigrationPlan, options: MigrationOptions): Promise<MigrationResult> => {
+	const result: MigrationResult = { uploaded: 0, failed: 0, rewrittenNotes: 0, trashed: 0 };
+	const markdownByPath = new Map<string, string>();
+
+	for (const image of plan.images) {
+		const sourcePath = plan.notes.find(entry => entry.images.includes(image))?.note.path ?? '';
+		try {
+			markdownByPath.set(image.path, await options.upload(await readVaultFile(app, image), sourcePath));
+			result.uploaded++;
+		} catch (error) {
+			console.error(`Failed to upload ${image.path}:`, error);
+			result.failed++;
+		}
+		options.onProgress?.(result.uploaded + result.failed, plan.images.length);
+	}
+
+	// Images with an embed that could not be rewritten, e.g. because the metadata cache was stale
+	const unreplaced = new Set<string>();
+	for (const { note, images } of plan.notes) {
+		let replaced = 0;
+		for (const image of images) {
+			const markdown = markdownByPath.get(image.path);
+			if (markdown) {
+				const count = await replaceEmbedsInNote(app, note, image, markdown);
+				if (count === 0) {
+					console.warn(`No embed of ${image.path} was rewritten in ${note.path}, keeping the local file`);
+					unreplaced.add(image.path);
+				}
+				replaced += count;
+			}
+		}
+		if (replaced > 0) {
+			result.rewrittenNotes++;
+		}
+	}
+
+	if (options.trashLocalFiles) {
+		const migratedNotes = new Set(plan.notes.map(entry => entry.note));
+		for (const image of plan.images) {
+			if (!markdownByPath.has(image.path) || unreplaced.has(image.path)) {
+				continue;
+			}
+			// Keep files that are still referenced by notes outside of this migration
+			const stillReferenced = findNotesEmbedding(app, image).some(note => !migratedNotes.has(note));
+			if (!stillReferenced) {
+				await app.fileManager.trashFile(image);
+				result.trashed++;
+			}
+		}
+	}
+
+	return result;
+};
+
+/**
+ * Dry-run preview of a vault-wide migration, confirming before anything is uploaded
+ */
+export class LocalImageMigrationModal extends Modal {
+	private static readonly MAX_LISTED_NOTES = 50;
+
+	constructor(app: App, private readonly plan: MigrationPlan, private readonly onConfirm: () => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, plan } = this;
+		this.titleEl.setText('Upload local images');
+
+		if (plan.images.length === 0) {
+			contentEl.createEl('p', { text: 'No local images were found in your notes.' });
+			return;
+		}
+
+		const totalBytes = plan.images.reduce((sum, image) => sum + image.stat.size, 0);
+		contentEl.createEl('p', {
+			text: `${plan.images.length} local image${plan.images.length === 1 ? '' : 's'} (${(totalBytes / 1024 / 1024).toFixed(1)} MB) ` +
+				`embedded in ${plan.notes.length} note${plan.notes.length === 1 ? '' : 's'} will be uploaded and their links rewritten.`,
+		});
+
+		const listEl = contentEl.createEl('ul');
+		plan.notes.slice(0, LocalImageMigrationModal.MAX_LISTED_NOTES).forEach(({ note, images }) => {
+			listEl.createEl('li', { text: `${note.path} (${images.length})` });
+		});
+		if (plan.notes.length > LocalImageMigrationModal.MAX_LISTED_NOTES) {
+			listEl.createEl('li', { text: `…and ${plan.notes.length - LocalImageMigrationModal.MAX_LISTED_NOTES} more notes` });
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(`Upload ${plan.images.length} image${plan.images.length === 1 ? '' : 's'}`)
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
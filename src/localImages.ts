@@ -0,0 +1,97 @@
+import { App, TFile, getLinkpath } from 'obsidian';
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	avif: 'image/avif',
+	bmp: 'image/bmp',
+	svg: 'image/svg+xml',
+	pdf: 'application/pdf',
+	mp4: 'video/mp4',
+	webm: 'video/webm',
+	mov: 'video/quicktime',
+	mp3: 'audio/mpeg',
+	m4a: 'audio/mp4',
+	wav: 'audio/wav',
+	ogg: 'audio/ogg',
+	zip: 'application/zip',
+};
+
+/**
+ * Returns the MIME type for a file extension, falling back to a generic binary type
+ */
+export const getMimeType = (extension: string): string => {
+	return MIME_TYPES_BY_EXTENSION[extension.toLowerCase()] || 'application/octet-stream';
+};
+
+/**
+ * Returns the file extension for a MIME type (e.g. image/jpeg -> jpg)
+ */
+export const getExtensionForMimeType = (mimeType: string): string => {
+	const match = Object.keys(MIME_TYPES_BY_EXTENSION).find(ext => MIME_TYPES_BY_EXTENSION[ext] === mimeType);
+	return match || mimeType.split('/').pop()?.split('+')[0] || 'png';
+};
+
+/**
+ * Reads a vault file into a File object that can be handed to a StorageProvider
+ */
+export const readVaultFile = async (app: App, file: TFile): Promise<File> => {
+	const data = await app.vault.readBinary(file);
+	return new File([data], file.name, { type: getMimeType(file.extension) });
+};
+
+/**
+ * Returns every note whose resolved links point at the given file
+ */
+export const findNotesEmbedding = (app: App, target: TFile): TFile[] => {
+	return Object.entries(app.metadataCache.resolvedLinks)
+		.filter(([, links]) => links[target.path])
+		.map(([sourcePath]) => app.vault.getFileByPath(sourcePath))
+		.filter((note): note is TFile => note !== null);
+};
+
+/**
+ * Replaces every embed of `target` inside `note` with the given markdown
+ * @returns Number of embeds that were replaced
+ */
+export const replaceEmbedsInNote = async (app: App, note: TFile, target: TFile, replacement: string): Promise<number> => {
+	const originals = new Set(
+		(app.metadataCache.getFileCache(note)?.embeds ?? [])
+			.filter(embed => app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path)?.path === target.path)
+			.map(embed => embed.original)
+	);
+	if (originals.size === 0) {
+		return 0;
+	}
+
+	let replaced = 0;
+	await app.vault.process(note, (data) => {
+		originals.forEach((original) => {
+			const parts = data.split(original);
+			replaced += parts.length - 1;
+			data = parts.join(replacement);
+		});
+		return data;
+	});
+	return replaced;
+};
+
+/**
+ * Whether the file is an image Pasterly can upload
+ */
+export const isImageFile = (file: TFile): boolean => {
+	return getMimeType(file.extension).startsWith('image/');
+};
+
+/**
+ * Returns the vault images embedded in a note, without duplicates
+ */
+export const findEmbeddedLocalImages = (app: App, note: TFile): TFile[] => {
+	const images = (app.metadataCache.getFileCache(note)?.embeds ?? [])
+		.map(embed => app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), note.path))
+		.filter((file): file is TFile => file !== null && isImageFile(file));
+	return Array.from(new Set(images));
+};
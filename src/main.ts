@@ -1,47 +1,73 @@
-import { App, Editor, Notice, Plugin, PluginSettingTab, Setting } from 'obsidian';
+import { App, Editor, MarkdownFileInfo, MarkdownView, Notice, Plugin, TFile } from 'obsidian';
+import type { EditorView } from '@codemirror/view';
 import { createStorageProvider } from './storageProviders';
-import { StorageProvider, PasterlySettings, DEFAULT_SETTINGS } from './types';
+import { BackupCopy, StorageProvider, PasterlySettings, StorageProfile, UploadedObject, UploadHistoryEntry, UploadOptions } from './types';
+import { PendingUpload, UploadQueue } from './uploadQueue';
+import { addUniqueSuffix, buildObjectKey, hashFile, isContentAddressedKeyTemplate } from './objectKey';
+import { ImageDimensions, getImageDimensions, processImage } from './imageProcessing';
+import { LocalImageMigrationModal, MigrationPlan, planLocalImageMigration, runLocalImageMigration } from './localImageMigration';
+import { getMissingConfigMessage, getStorageTarget, resolveProfile } from './profiles';
+import { PasterlySettingTab } from './settingsTab';
+import { SETTINGS_VERSION, applySettingsDefaults, migrateSettings } from './settingsSchema';
+import { CONFIG_FILE_NAME, DEVICE_PROFILE_SETTINGS, buildConfigFile, parseConfigFile, pickConfigFile } from './settingsTransfer';
+import { UploadTracker, findPlaceholderIds, getPlaceholder } from './uploadTracker';
+import { UploadCancelledError, UploadError, throwIfCancelled, toUploadError, withRetry } from './errors';
+import { showUploadErrorNotice } from './uploadErrorNotice';
+import { ConfirmModal } from './confirmModal';
+import { runGcloudAuthLogin } from './gcsAuth';
+import { UPLOAD_HISTORY_VIEW_TYPE, UploadHistoryView } from './uploadHistoryView';
+import { PRIVATE_REFERENCE_SCHEME, PrivateImageResolver, buildPrivateReference } from './privateImages';
+import { OrphanScan, OrphanedImage, OrphanedImagesModal, findOrphanedImages } from './orphanedImages';
+import { findAttachmentRule, formatAttachmentLink, isWithinSizeLimit } from './attachments';
+import { downloadImage, findExternalImageLinks, getClipboardImageUrls } from './remoteImages';
+import { getMimeType } from './localImages';
+import { PASTERLY_EVENTS, PasterlyProviderInfo, PasterlyUploadCompleteEvent, PasterlyUploadFailedEvent, PasterlyUploadOptions, PasterlyUploadResult, PasterlyUploadStartEvent } from './api';
+import { promptForAltText, renderLinkTemplate } from './linkTemplate';
+import { EncryptedSecrets, PassphraseModal, ProfileSecrets, SecretStore, hasSecrets, mergeSecrets, splitSecrets } from './secretStore';
 
-const normalizeOptionalBaseUrl = (value: string): string => {
-	if (!value.trim()) {
-		return '';
-	}
-
-	const trimmedValue = value.trim();
-	const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmedValue)
-		? trimmedValue
-		: `https://${trimmedValue.replace(/^\/+/, '')}`;
-
-	return withProtocol.replace(/\/+$/, '');
-};
+// Uploads under a taken key are tried again under this many names in total
+const MAX_CONFLICT_ATTEMPTS = 3;
 
 /**
- * Creates a temporary placeholder in the editor while an image is being uploaded
+ * Replaces a placeholder wherever it currently is in the editor
+ * @returns false when the editor no longer contains the placeholder
  */
-const createPlaceholder = (editor: Editor) => {
-	const placeholder = '![Uploading...]()';
-	const cursor = editor.getCursor();
-	editor.replaceSelection(placeholder);
-	return { placeholder, cursor };
+const replacePlaceholderInEditor = (editor: Editor, placeholder: string, content: string): boolean => {
+	const offset = editor.getValue().indexOf(placeholder);
+	if (offset < 0) {
+		return false;
+	}
+	editor.replaceRange(content, editor.offsetToPos(offset), editor.offsetToPos(offset + placeholder.length));
+	return true;
 };
 
 /**
- * Replaces the temporary placeholder with the final content
+ * Collects every file from a clipboard or drag-and-drop payload, in order
  */
-const replacePlaceholder = (editor: Editor, placeholder: string, cursor: { line: number, ch: number }, content: string) => {
-	const start = { line: cursor.line, ch: cursor.ch };
-	const end = { line: cursor.line, ch: cursor.ch + placeholder.length };
-	editor.replaceRange(content, start, end);
+const getTransferFiles = (dataTransfer: DataTransfer | null): File[] => {
+	if (!dataTransfer) {
+		return [];
+	}
+	const files = Array.from(dataTransfer.items)
+		.filter(item => item.kind === 'file')
+		.map(item => item.getAsFile())
+		.filter((file): file is File => file !== null);
+	// Some platforms only expose dropped files through `files`
+	return files.length > 0 ? files : Array.from(dataTransfer.files);
 };
 
+const isImageFile = (file: File) => file.type.startsWith('image/');
+
 /**
- * Attaches an image to the editor
+ * Moves the cursor to the drop point so placeholders are inserted where the files were dropped
  */
-const attachImage = (imageUrl: string, hasFixedSize: boolean, size: number) => {
-	if (!hasFixedSize) {
-		return `![](${imageUrl})`
+const moveCursorToDropPoint = (editor: Editor, evt: DragEvent) => {
+	// `cm` is the underlying CodeMirror view, which is not part of the public API
+	const view = (editor as Editor & { cm?: EditorView }).cm;
+	const offset = view?.posAtCoords({ x: evt.clientX, y: evt.clientY });
+	if (offset !== null && offset !== undefined) {
+		editor.setCursor(editor.offsetToPos(offset));
 	}
-	return `![${size}](${imageUrl})`;
 };
 
 /**
@@ -49,12 +75,12 @@ const attachImage = (imageUrl: string, hasFixedSize: boolean, size: number) => {
  */
 const withErrorHandling = async <T>(
 	fn: () => Promise<T>,
-	onError: (error: Error) => void
+	onError: (error: Error) => void | Promise<void>
 ): Promise<T | null> => {
 	try {
 		return await fn();
 	} catch (error) {
-		onError(error as Error);
+		await onError(error as Error);
 		return null;
 	}
 };
@@ -65,63 +91,54 @@ const withErrorHandling = async <T>(
  */
 export default class Pasterly extends Plugin {
 	settings: PasterlySettings;
-	private storageProvider: StorageProvider | null = null;
+	private storageProviders = new Map<string, StorageProvider>();
 	private initializeTimeout: number | null = null;
+	private uploadQueue: UploadQueue;
+	private uploadedHashes: Record<string, UploadedObject> = {};
+	private uploadTracker = new UploadTracker();
+	private uploadHistory: UploadHistoryEntry[] = [];
+	private privateImages = new PrivateImageResolver(profileId => this.storageProviders.get(profileId));
+	private secretStore = new SecretStore(this.app);
+	private encryptedSecrets: EncryptedSecrets | null = null;
+	/** Credentials are passphrase-encrypted and the passphrase was not entered on this device yet */
+	secretsLocked = false;
 
 	/**
-	 * Initializes the storage provider based on settings
+	 * Initializes one storage provider per profile based on settings
 	 */
 	async initializeStorage() {
-		try {
-			if (this.settings.storageType === 'firebase') {
-				if (!this.settings.firebaseBucketUrl) {
-					new Notice('Please set your Firebase Storage bucket URL in settings first.');
-					return;
-				}
-			} else if (this.settings.storageType === 'gcs') {
-				if (!this.settings.gcsBucketName) {
-					new Notice('Please set your GCS bucket name in settings first.');
-					return;
-				}
-				// If not using gcloud CLI, require access token
-				if (!this.settings.gcsUseGcloudCli && !this.settings.gcsAccessToken) {
-					new Notice('Please set your GCS access token or enable gcloud CLI in settings.');
-					return;
-				}
-			} else if (this.settings.storageType === 's3') {
-				if (!this.settings.s3BucketName) {
-					new Notice('Please set your S3 bucket name in settings first.');
-					return;
-				}
-				if (!this.settings.s3Region) {
-					new Notice('Please set your S3 region in settings first.');
-					return;
-				}
-				if (!this.settings.s3AccessKeyId || !this.settings.s3SecretAccessKey) {
-					new Notice('Please set your S3 credentials in settings first.');
+		this.storageProviders.clear();
+		this.privateImages.clear();
+		if (this.secretsLocked) {
+			new Notice('Pasterly: enter your passphrase to unlock the storage credentials.');
+			return;
+		}
+		const showProfileName = this.settings.profiles.length > 1;
+
+		this.settings.profiles.forEach((profile) => {
+			const prefix = showProfileName ? `Pasterly profile "${profile.name}": ` : '';
+			try {
+				const missingSettingMessage = getMissingConfigMessage(profile);
+				if (missingSettingMessage) {
+					new Notice(`${prefix}${missingSettingMessage}`);
 					return;
 				}
+
+				this.storageProviders.set(profile.id, createStorageProvider(profile.storageType, profile));
+			} catch (error) {
+				console.error(`Failed to initialize storage provider for profile "${profile.name}":`, error);
+				new Notice(`${prefix}Failed to initialize storage provider. Check settings.`);
 			}
+		});
+	}
 
-			this.storageProvider = createStorageProvider(this.settings.storageType, {
-				firebaseBucketUrl: this.settings.firebaseBucketUrl,
-				gcsBucketName: this.settings.gcsBucketName,
-				gcsAccessToken: this.settings.gcsAccessToken,
-				gcsCdnBaseUrl: this.settings.gcsCdnBaseUrl,
-				gcsUseGcloudCli: this.settings.gcsUseGcloudCli,
-				s3BucketName: this.settings.s3BucketName,
-				s3Region: this.settings.s3Region,
-				s3Endpoint: this.settings.s3Endpoint,
-				s3AccessKeyId: this.settings.s3AccessKeyId,
-				s3SecretAccessKey: this.settings.s3SecretAccessKey,
-				s3SessionToken: this.settings.s3SessionToken,
-				s3PublicBaseUrl: this.settings.s3PublicBaseUrl,
-				s3ForcePathStyle: this.settings.s3ForcePathStyle,
-			});
-		} catch (error) {
-			console.error('Failed to initialize storage provider:', error);
-			new Notice('Failed to initialize storage provider. Check settings.');
-		}
+	/**
+	 * Resolves the profile and provider that uploads for a note should go to
+	 */
+	getStorageForNote(sourcePath: string): { profile: StorageProfile; provider: StorageProvider } | null {
+		const profile = resolveProfile(this.app, this.settings, sourcePath);
+		const provider = profile ? this.storageProviders.get(profile.id) : undefined;
+		return profile && provider ? { profile, provider } : null;
 	}
 
 	/**
@@ -138,63 +155,1055 @@ export default class Pasterly extends Plugin {
 	};
 
 	/**
-	 * Handles the image upload process
+	 * Returns the URL written into notes for an uploaded object: its public URL,
+	 * or a pasterly:// reference when the profile keeps its bucket private
 	 */
-	handleImageUpload = async (file: File, editor: Editor) => {
-		const storage = this.storageProvider;
-		if (!storage) {
-			new Notice('Storage provider is not initialized. Please check your settings.');
-			return null;
-		}
+	private getLinkUrl(profile: StorageProfile, object: UploadedObject): string {
+		return profile.privateMode ? buildPrivateReference(profile.id, object.key) : object.url;
+	}
 
-		const { placeholder, cursor } = createPlaceholder(editor);
+	/**
+	 * Returns the backup profile of a profile when it is set and its provider is initialized.
+	 * Backups are not chained, the backup profile's own backup is never used.
+	 */
+	private getBackupStorage(profile: StorageProfile): { profile: StorageProfile; provider: StorageProvider } | null {
+		const backupProfile = profile.backupProfileId !== profile.id
+			? this.settings.profiles.find(item => item.id === profile.backupProfileId)
+			: undefined;
+		const provider = backupProfile ? this.storageProviders.get(backupProfile.id) : undefined;
+		return backupProfile && provider ? { profile: backupProfile, provider } : null;
+	}
 
-		const result = await withErrorHandling(
-			async () => {
-				const imageUrl = await storage.uploadImage(file);
-				const size = this.settings.imageSize;
-				const hasFixedSize = size > 1;
-				const imageTag = attachImage(imageUrl, hasFixedSize, size);
-				replacePlaceholder(editor, placeholder, cursor, imageTag);
-				new Notice('Image uploaded successfully');
-				return imageUrl;
+	/**
+	 * Uploads to one profile, retrying network errors, timeouts, rate limits and server errors with backoff
+	 */
+	private uploadWithRetry(profile: StorageProfile, storage: StorageProvider, file: File, key: string, options: UploadOptions): Promise<string> {
+		return withRetry((signal, onActivity) => storage.uploadImage(file, key, {
+			...options,
+			signal,
+			onProgress: (loaded, total) => {
+				onActivity();
+				options.onProgress?.(loaded, total);
 			},
-			(error) => {
-				replacePlaceholder(editor, placeholder, cursor, '');
-				new Notice(error.message || 'Failed to upload image. Please check your storage settings');
-				console.error('Image upload error:', error);
+		}), {
+			retries: this.settings.uploadRetries,
+			timeoutMs: this.settings.uploadTimeoutSeconds * 1000,
+			signal: options.signal,
+			target: `profile "${profile.name}"`,
+			onRetry: (error, attemptNumber, delayMs) => {
+				console.warn(`Upload of ${file.name} failed, retrying in ${Math.round(delayMs / 1000)} s:`, error);
+				if (attemptNumber === 1) {
+					new Notice(`Upload of ${file.name} failed (${error.message}), retrying...`);
+				}
+			},
+		});
+	}
+
+	/**
+	 * Uploads to the profile, falling back to its backup profile when the upload fails.
+	 * In mirror mode the backup profile receives a copy of every upload in parallel.
+	 * @returns The profile the linked object was stored in, its URL and the mirror copy, if any
+	 */
+	private async uploadWithBackup(profile: StorageProfile, storage: StorageProvider, file: File, key: string, options: UploadOptions): Promise<{ profile: StorageProfile; url: string; backup: BackupCopy | null }> {
+		const backup = this.getBackupStorage(profile);
+		if (!backup) {
+			return { profile, url: await this.uploadWithRetry(profile, storage, file, key, options), backup: null };
+		}
+
+		// Progress is reported for the primary upload only
+		const mirrored = profile.backupMode === 'mirror'
+			? this.uploadWithRetry(backup.profile, backup.provider, file, key, { signal: options.signal }).catch((error: Error) => error)
+			: null;
+		try {
+			const url = await this.uploadWithRetry(profile, storage, file, key, options);
+			const mirrorUrl = await mirrored;
+			if (mirrorUrl instanceof Error) {
+				console.error(`Failed to mirror "${key}" to profile "${backup.profile.name}":`, mirrorUrl);
+				new Notice(`Uploaded, but the copy to backup profile "${backup.profile.name}" failed: ${mirrorUrl.message}`);
 			}
-		);
+			return { profile, url, backup: typeof mirrorUrl === 'string' ? { profileId: backup.profile.id, key, url: mirrorUrl } : null };
+		} catch (error) {
+			// A taken key is retried under another one, the backup profile would only get a different key
+			if (error instanceof UploadCancelledError || (error instanceof UploadError && error.kind === 'conflict')) {
+				throw error;
+			}
+			console.warn(`Upload to profile "${profile.name}" failed, using backup profile "${backup.profile.name}":`, error);
+			let url: string;
+			try {
+				const mirrorUrl = mirrored ? await mirrored : await this.uploadWithRetry(backup.profile, backup.provider, file, key, options);
+				if (mirrorUrl instanceof Error) {
+					throw mirrorUrl;
+				}
+				url = mirrorUrl;
+			} catch (backupError) {
+				if (backupError instanceof UploadCancelledError) {
+					throw backupError;
+				}
+				// The primary failure decides how the error is reported
+				const primaryError = toUploadError(error, `profile "${profile.name}"`);
+				const message = backupError instanceof Error ? backupError.message : 'Unknown error';
+				throw new UploadError(primaryError.kind, `${primaryError.message}. Backup profile "${backup.profile.name}" failed too: ${message}`, primaryError.details);
+			}
+			new Notice(`Upload to "${profile.name}" failed, the file was stored in backup profile "${backup.profile.name}" instead`);
+			return { profile: backup.profile, url, backup: null };
+		}
+	}
+
+	/**
+	 * Uploads a file unless identical content was uploaded before, in which case the known URL is reused
+	 * @returns URL to write into the note, the object key and the profile the object is stored in
+	 */
+	private async uploadDeduplicated(profile: StorageProfile, storage: StorageProvider, file: File, sourcePath: string, options: UploadOptions = {}, dimensions: ImageDimensions | null = null): Promise<{ url: string; key: string; profile: StorageProfile }> {
+		const hash = this.settings.deduplicateUploads ? await hashFile(file) : undefined;
+		// Index entries are per profile so a note never receives a link into another profile's bucket
+		const indexKey = hash ? `${profile.id}/${hash}` : undefined;
+		if (indexKey && this.uploadedHashes[indexKey]) {
+			return { url: this.getLinkUrl(profile, this.uploadedHashes[indexKey]), key: this.uploadedHashes[indexKey].key, profile };
+		}
+
+		const template = this.settings.objectKeyTemplate;
+		const templateKey = await buildObjectKey(template, {
+			file,
+			vaultName: this.app.vault.getName(),
+			notePath: sourcePath,
+			hash,
+		});
+		let key = templateKey;
+
+		let url: string | null = null;
+		if (hash && storage.getExistingUrl && isContentAddressedKeyTemplate(template)) {
+			// Content-addressed keys let the bucket itself tell us whether this content exists
+			url = await storage.getExistingUrl(key).catch((error) => {
+				console.warn('Failed to check for an existing upload:', error);
+				return null;
+			});
+		}
+		const uploaded = !url;
+		// The profile the object ends up in, the backup profile when the upload failed over
+		let storedProfile = profile;
+		let backup: BackupCopy | null = null;
+		for (let attempt = 1; !url; attempt++) {
+			try {
+				({ profile: storedProfile, url, backup } = await this.uploadWithBackup(profile, storage, file, key, options));
+			} catch (error) {
+				// Providers that cannot overwrite, like git, report a key taken by other content
+				if (!(error instanceof UploadError && error.kind === 'conflict') || attempt >= MAX_CONFLICT_ATTEMPTS) {
+					throw error;
+				}
+				key = addUniqueSuffix(templateKey);
+			}
+		}
+
+		if (hash) {
+			this.uploadedHashes[`${storedProfile.id}/${hash}`] = { url, key };
+		}
+		if (uploaded) {
+			this.uploadHistory.push({
+				id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+				url,
+				key,
+				profileId: storedProfile.id,
+				storageType: storedProfile.storageType,
+				size: file.size,
+				mimeType: file.type,
+				width: dimensions?.width,
+				height: dimensions?.height,
+				uploadedAt: Date.now(),
+				sourcePath,
+				backup: backup ?? undefined,
+			});
+			this.refreshUploadHistoryViews();
+		}
+		if (hash || uploaded) {
+			await this.saveSettings();
+		}
+		return { url: this.getLinkUrl(storedProfile, { url, key }), key, profile: storedProfile };
+	}
+
+	private getHistoryLinkUrl(entry: UploadHistoryEntry): string {
+		const profile = this.settings.profiles.find(item => item.id === entry.profileId);
+		return profile ? this.getLinkUrl(profile, entry) : entry.url;
+	}
+
+	/**
+	 * Re-renders every open upload history view
+	 */
+	private refreshUploadHistoryViews() {
+		this.app.workspace.getLeavesOfType(UPLOAD_HISTORY_VIEW_TYPE).forEach((leaf) => {
+			if (leaf.view instanceof UploadHistoryView) {
+				leaf.view.render();
+			}
+		});
+	}
+
+	/**
+	 * Removes a deleted object from the upload history and the content-hash index
+	 */
+	private forgetUploadedObject(profileId: string, key: string) {
+		this.uploadHistory = this.uploadHistory.filter(item => item.profileId !== profileId || item.key !== key);
+		// Identical content pasted later must be uploaded again instead of reusing the deleted URL
+		Object.keys(this.uploadedHashes).forEach((indexKey) => {
+			if (indexKey.startsWith(`${profileId}/`) && this.uploadedHashes[indexKey].key === key) {
+				delete this.uploadedHashes[indexKey];
+			}
+		});
+	}
+
+	/**
+	 * Deletes an uploaded object from its storage and forgets it
+	 */
+	private async deleteUploadedImage(entry: UploadHistoryEntry) {
+		const provider = this.storageProviders.get(entry.profileId);
+		if (!provider?.deleteImage) {
+			throw new Error('The storage provider of this upload cannot delete images.');
+		}
+		await provider.deleteImage(entry.key);
+		if (entry.backup) {
+			// The mirror copy is only kept as long as the upload itself
+			const backupProvider = this.storageProviders.get(entry.backup.profileId);
+			await backupProvider?.deleteImage?.(entry.backup.key).catch((error) => {
+				console.warn(`Failed to delete the backup copy of "${entry.key}":`, error);
+			});
+		}
+
+		this.forgetUploadedObject(entry.profileId, entry.key);
+		await this.saveSettings();
+		this.refreshUploadHistoryViews();
+	}
+
+	/**
+	 * Deletes the objects found by an orphan scan and reports the outcome
+	 */
+	private async deleteOrphanedImages(orphans: OrphanedImage[]) {
+		const progress = new Notice(`Deleting orphaned images 0/${orphans.length}...`, 0);
+		let deleted = 0;
+		let failed = 0;
+		for (const orphan of orphans) {
+			try {
+				const provider = this.storageProviders.get(orphan.profileId);
+				if (!provider?.deleteImage) {
+					throw new Error('Storage provider is not initialized or cannot delete images.');
+				}
+				await provider.deleteImage(orphan.key);
+				this.forgetUploadedObject(orphan.profileId, orphan.key);
+				deleted++;
+			} catch (error) {
+				console.error(`Failed to delete orphaned image "${orphan.key}":`, error);
+				failed++;
+			}
+			progress.setMessage(`Deleting orphaned images ${deleted + failed}/${orphans.length}...`);
+		}
+		progress.hide();
+
+		await this.saveSettings();
+		this.refreshUploadHistoryViews();
+		new Notice(`Deleted ${deleted} orphaned image${deleted === 1 ? '' : 's'}${failed > 0 ? `, ${failed} failed (see console)` : ''}`);
+	}
+
+	/**
+	 * Scans the vault for uploaded objects that are no longer referenced and offers to delete them
+	 */
+	private async scanForOrphanedImages() {
+		const progress = new Notice('Scanning notes for orphaned images...', 0);
+		let scan: OrphanScan;
+		try {
+			scan = await findOrphanedImages(this.app, {
+				profiles: this.settings.profiles,
+				getProvider: (profileId) => this.storageProviders.get(profileId),
+				history: this.uploadHistory,
+				keyTemplate: this.settings.objectKeyTemplate,
+				pendingMarkdown: this.uploadQueue.pending
+					.map(entry => entry.uploadedMarkdown)
+					.filter((markdown): markdown is string => !!markdown),
+			});
+		} finally {
+			progress.hide();
+		}
+
+		new OrphanedImagesModal(
+			this.app,
+			scan,
+			(profileId) => this.settings.profiles.find(profile => profile.id === profileId)?.name ?? profileId,
+			() => this.deleteOrphanedImages(scan.orphans)
+		).open();
+	}
+
+	/**
+	 * Opens the upload history in the right sidebar, reusing an open view
+	 */
+	private async openUploadHistory() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(UPLOAD_HISTORY_VIEW_TYPE)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: UPLOAD_HISTORY_VIEW_TYPE, active: true });
+		}
+		workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Returns the markdown for an uploaded file: the link template for images,
+	 * or the embed or link its attachment rule asks for
+	 */
+	private formatUploadLink(url: string, file: { name: string; type: string; width?: number; height?: number }, alt = ''): string {
+		if (file.type.startsWith('image/')) {
+			return renderLinkTemplate(this.settings.linkTemplate, {
+				url,
+				alt,
+				fileName: file.name,
+				width: file.width,
+				height: file.height,
+				size: this.settings.imageSize,
+			});
+		}
+		const rule = findAttachmentRule(this.settings.attachmentRules, new File([], file.name, { type: file.type }));
+		return formatAttachmentLink(url, file.name, rule?.output ?? 'link');
+	}
+
+	/**
+	 * Picks the pasted or dropped files Pasterly uploads: every image, plus files matching an attachment rule.
+	 * Files over the size limit of their rule are reported and left out.
+	 */
+	private getUploadableFiles(files: File[], sourcePath: string): { uploadable: File[]; tooLarge: File[] } {
+		// Private mode only resolves images, other attachments would end up as links that cannot be opened
+		const isPrivate = resolveProfile(this.app, this.settings, sourcePath)?.privateMode ?? false;
+		const uploadable: File[] = [];
+		const tooLarge: File[] = [];
+		files.forEach((file) => {
+			if (isImageFile(file)) {
+				uploadable.push(file);
+				return;
+			}
+			const rule = isPrivate ? null : findAttachmentRule(this.settings.attachmentRules, file);
+			if (rule) {
+				(isWithinSizeLimit(rule, file) ? uploadable : tooLarge).push(file);
+			}
+		});
+		if (tooLarge.length > 0) {
+			new Notice(`Not uploaded, over the size limit of their attachment rule: ${tooLarge.map(file => file.name).join(', ')}`);
+		}
+		return { uploadable, tooLarge };
+	}
+
+	/**
+	 * Processes and uploads a file to the profile of the note, triggering the upload events
+	 * @param sourcePath - Note the file belongs to, used by the object key template
+	 * @param options - Progress callback and cancellation signal passed to the provider
+	 * @param storage - Profile to upload to instead of the one the note routes to
+	 * @returns The upload, the file after image processing and its dimensions
+	 */
+	private async processAndUpload(
+		file: File,
+		sourcePath: string,
+		options: UploadOptions = {},
+		storage = this.getStorageForNote(sourcePath)
+	): Promise<{ result: PasterlyUploadResult; file: File; dimensions: ImageDimensions | null }> {
+		throwIfCancelled(options.signal);
+		if (!storage) {
+			throw new Error('Storage provider is not initialized. Please check your settings.');
+		}
+		const event: PasterlyUploadStartEvent = { file, sourcePath, profileId: storage.profile.id };
+		this.app.workspace.trigger(PASTERLY_EVENTS.uploadStart, event);
+		try {
+			const processedFile = await processImage(file, {
+				maxWidth: this.settings.imageMaxWidth,
+				maxHeight: this.settings.imageMaxHeight,
+				format: this.settings.imageOutputFormat,
+				quality: this.settings.imageQuality,
+				stripMetadata: this.settings.stripImageMetadata,
+			});
+			throwIfCancelled(options.signal);
+			const dimensions = await getImageDimensions(processedFile);
+			const { url, key, profile } = await this.uploadDeduplicated(storage.profile, storage.provider, processedFile, sourcePath, options, dimensions);
+			const result: PasterlyUploadResult = { url, key, provider: profile.storageType, profileId: profile.id };
+			const completeEvent: PasterlyUploadCompleteEvent = { ...event, result };
+			this.app.workspace.trigger(PASTERLY_EVENTS.uploadComplete, completeEvent);
+			return { result, file: processedFile, dimensions };
+		} catch (error) {
+			const failedEvent: PasterlyUploadFailedEvent = { ...event, error: error as Error };
+			this.app.workspace.trigger(PASTERLY_EVENTS.uploadFailed, failedEvent);
+			throw error;
+		}
+	}
+
+	/**
+	 * Uploads a file through the configured profiles, for other plugins and scripts:
+	 * `app.plugins.getPlugin('pasterly').uploadFile(file, { sourcePath })`.
+	 * Image processing, the object key template, deduplication, retries and backup profiles apply as for pasted files.
+	 * @param data - The file, or its content together with `options.fileName`
+	 * @returns The URL to link to, the object key and the storage it was stored in
+	 * @throws UploadError describing the failure, or UploadCancelledError when `options.signal` aborted
+	 */
+	async uploadFile(data: File | ArrayBuffer, options: PasterlyUploadOptions = {}): Promise<PasterlyUploadResult> {
+		let file: File;
+		if (data instanceof File) {
+			file = data;
+		} else {
+			if (!options.fileName) {
+				throw new Error('fileName is required to upload an ArrayBuffer');
+			}
+			const extension = options.fileName.includes('.') ? options.fileName.split('.').pop() ?? '' : '';
+			file = new File([data], options.fileName, { type: options.mimeType || getMimeType(extension) });
+		}
 
+		const sourcePath = options.sourcePath ?? this.app.workspace.getActiveFile()?.path ?? '';
+		let storage = this.getStorageForNote(sourcePath);
+		if (options.profileId) {
+			const profile = this.settings.profiles.find(item => item.id === options.profileId);
+			if (!profile) {
+				throw new Error(`Profile "${options.profileId}" does not exist`);
+			}
+			const provider = this.storageProviders.get(profile.id);
+			storage = provider ? { profile, provider } : null;
+		}
+		const { result } = await this.processAndUpload(file, sourcePath, { onProgress: options.onProgress, signal: options.signal }, storage);
 		return result;
+	}
+
+	/**
+	 * Returns the profile and storage type uploads for a note go to
+	 * @param sourcePath - Note to resolve routing rules for, defaults to the active note
+	 * @returns null when the profile has no initialized provider, e.g. because settings are incomplete
+	 */
+	getActiveProvider(sourcePath = this.app.workspace.getActiveFile()?.path ?? ''): PasterlyProviderInfo | null {
+		const storage = this.getStorageForNote(sourcePath);
+		return storage ? { provider: storage.profile.storageType, profileId: storage.profile.id, profileName: storage.profile.name } : null;
+	}
+
+	/**
+	 * Uploads a file and returns the markdown for it
+	 * @param askForAltText - Whether the alt text prompt may be shown, only for uploads the user just started
+	 */
+	private async uploadAndFormat(file: File, sourcePath: string, options: UploadOptions = {}, askForAltText = false): Promise<string> {
+		const { result: { url }, file: processedFile, dimensions } = await this.processAndUpload(file, sourcePath, options);
+		const alt = askForAltText && this.settings.promptForAltText && isImageFile(processedFile)
+			? await promptForAltText(this.app, processedFile)
+			: '';
+		return this.formatUploadLink(url, { name: processedFile.name, type: processedFile.type, ...dimensions }, alt);
+	}
+
+	/**
+	 * Saves the file into the vault and queues it for a later upload
+	 */
+	private async queueImage(file: File, sourcePath: string, error?: Error): Promise<string> {
+		const localEmbed = await this.uploadQueue.enqueue(file, sourcePath, error);
+		const kind = isImageFile(file) ? 'Image' : 'File';
+		if (error) {
+			this.showUploadError(error, sourcePath, `Upload failed. ${kind} saved locally and will be retried automatically.`);
+		} else {
+			new Notice(`You are offline. ${kind} saved locally and will be uploaded when the connection returns.`);
+		}
+		return localEmbed;
+	}
+
+	/**
+	 * Reports a failed upload with a hint and a fix-it button matching the kind of failure
+	 * @param summary - Shown instead of the error message
+	 */
+	private showUploadError(error: Error, sourcePath: string, summary?: string) {
+		const profile = resolveProfile(this.app, this.settings, sourcePath);
+		showUploadErrorNotice(error, profile, {
+			openSettings: () => this.openSettings(),
+			runGcloudLogin: () => this.runGcloudLogin(profile?.gcsGcloudPath ?? ''),
+		}, summary);
+	}
+
+	/**
+	 * Opens the settings tab of the plugin
+	 */
+	private openSettings() {
+		// `setting` is the settings modal, which is not part of the public API
+		const setting = (this.app as App & { setting?: { open(): void; openTabById(id: string): void } }).setting;
+		if (!setting) {
+			new Notice('Open the Pasterly settings from Settings → Community plugins');
+			return;
+		}
+		setting.open();
+		setting.openTabById(this.manifest.id);
+	}
+
+	/**
+	 * Signs in to gcloud again, then retries the queued uploads with a fresh token
+	 */
+	private async runGcloudLogin(gcloudPath: string) {
+		const progress = new Notice('Waiting for "gcloud auth login" to finish in your browser...', 0);
+		try {
+			await runGcloudAuthLogin(gcloudPath);
+			new Notice('Signed in to gcloud');
+			// Providers cache gcloud tokens, new ones use the fresh login
+			await this.initializeStorage();
+			await this.processUploadQueue();
+		} catch (error) {
+			new Notice((error as Error).message);
+		} finally {
+			progress.hide();
+		}
+	}
+
+	/**
+	 * Replaces an upload placeholder in the editor, or in the note file once the editor no longer shows it
+	 */
+	private async replacePlaceholder(editor: Editor, placeholder: string, sourcePath: string, content: string) {
+		const isNoteOpen = this.app.workspace.getLeavesOfType('markdown')
+			.some(leaf => leaf.view instanceof MarkdownView && leaf.view.file?.path === sourcePath);
+		if ((isNoteOpen || !sourcePath) && replacePlaceholderInEditor(editor, placeholder, content)) {
+			return;
+		}
+		const note = sourcePath ? this.app.vault.getFileByPath(sourcePath) : null;
+		if (note) {
+			await this.app.vault.process(note, data => data.split(placeholder).join(content));
+		}
+	}
+
+	/**
+	 * Uploads one file and swaps its placeholder for the final markdown
+	 */
+	private async uploadIntoPlaceholder(id: string, file: File, editor: Editor, sourcePath: string) {
+		const placeholder = getPlaceholder(id);
+
+		try {
+			return await withErrorHandling(
+				async () => {
+					const options = this.uploadTracker.begin(id);
+					const markdown = await this.uploadAndFormat(file, sourcePath, options, true);
+					// A cancel that came too late to stop the request still keeps the link out of the note
+					throwIfCancelled(options.signal);
+					await this.replacePlaceholder(editor, placeholder, sourcePath, markdown);
+					new Notice(isImageFile(file) ? 'Image uploaded successfully' : `${file.name} uploaded successfully`);
+					return markdown;
+				},
+				async (error) => {
+					try {
+						await this.handleUploadFailure(error, id, file, editor, sourcePath);
+					} catch (fallbackError) {
+						// Queueing or clearing the placeholder failed as well, the placeholder stays in the note
+						console.error('Failed to handle the upload error:', fallbackError);
+						this.showUploadError(error, sourcePath);
+					}
+				}
+			);
+		} finally {
+			this.uploadTracker.finish(id);
+		}
+	}
+
+	/**
+	 * Clears or queues the placeholder of an upload that failed or was cancelled
+	 */
+	private async handleUploadFailure(error: Error, id: string, file: File, editor: Editor, sourcePath: string) {
+		const placeholder = getPlaceholder(id);
+		if (error instanceof UploadCancelledError) {
+			await this.replacePlaceholder(editor, placeholder, sourcePath, '');
+			new Notice(`Upload of ${file.name} cancelled`);
+			return;
+		}
+		console.error('Upload error:', error);
+		if (this.settings.queueFailedUploads) {
+			await this.replacePlaceholder(editor, placeholder, sourcePath, await this.queueImage(file, sourcePath, error));
+			return;
+		}
+		await this.replacePlaceholder(editor, placeholder, sourcePath, '');
+		this.showUploadError(error, sourcePath);
+	}
+
+	/**
+	 * Uploads several files in order. Every file gets its own placeholder up front,
+	 * identified by an upload id so it is found again even after the note was edited.
+	 */
+	handleFileUploads = async (files: File[], editor: Editor, sourcePath: string) => {
+		const storage = this.getStorageForNote(sourcePath);
+		if (!storage && !this.settings.queueFailedUploads) {
+			new Notice('Storage provider is not initialized. Please check your settings.');
+			return;
+		}
+
+		if (!navigator.onLine) {
+			const localEmbeds: string[] = [];
+			for (const file of files) {
+				localEmbeds.push(await this.queueImage(file, sourcePath));
+			}
+			editor.replaceSelection(localEmbeds.join('\n'));
+			return;
+		}
+
+		const ids = files.map(file => this.uploadTracker.register(file));
+		editor.replaceSelection(ids.map(getPlaceholder).join('\n'));
+
+		for (let index = 0; index < files.length; index++) {
+			await this.uploadIntoPlaceholder(ids[index], files[index], editor, sourcePath);
+		}
 	};
 
+	/**
+	 * Saves files into the attachment folder of the note without uploading them
+	 * @returns Markdown embeds pointing at the local copies
+	 */
+	private async saveLocalAttachments(files: File[], sourcePath: string): Promise<string[]> {
+		const embeds: string[] = [];
+		for (const file of files) {
+			const localPath = await this.app.fileManager.getAvailablePathForAttachment(file.name, sourcePath);
+			const localFile = await this.app.vault.createBinary(localPath, await file.arrayBuffer());
+			const link = this.app.fileManager.generateMarkdownLink(localFile, sourcePath);
+			embeds.push(link.startsWith('!') ? link : `!${link}`);
+		}
+		return embeds;
+	}
+
+	/**
+	 * Cancels the upload whose placeholder is on the cursor line, or every upload when there is none
+	 */
+	private cancelUploads(editor: Editor | undefined) {
+		const lineIds = editor ? findPlaceholderIds(editor.getLine(editor.getCursor().line)) : [];
+		const cancelled = lineIds.filter(id => this.uploadTracker.cancel(id)).length || this.uploadTracker.cancelAll();
+		if (cancelled === 0) {
+			new Notice('No uploads in progress');
+		}
+	}
+
+	/**
+	 * Retries queued uploads and reports the outcome
+	 */
+	processUploadQueue = async () => {
+		const uploaded = await this.uploadQueue.process();
+		if (uploaded > 0) {
+			new Notice(`Uploaded ${uploaded} queued image${uploaded === 1 ? '' : 's'}`);
+		}
+	};
+
+	/**
+	 * Uploads the local images of a migration plan and reports the outcome
+	 */
+	private migrateLocalImages = async (plan: MigrationPlan) => {
+		const progress = new Notice(`Uploading local images 0/${plan.images.length}...`, 0);
+		const result = await runLocalImageMigration(this.app, plan, {
+			upload: (file, sourcePath) => this.uploadAndFormat(file, sourcePath),
+			trashLocalFiles: this.settings.trashMigratedLocalImages,
+			onProgress: (done, total) => progress.setMessage(`Uploading local images ${done}/${total}...`),
+		});
+		progress.hide();
+
+		const summary = [`Uploaded ${result.uploaded} image${result.uploaded === 1 ? '' : 's'} in ${result.rewrittenNotes} note${result.rewrittenNotes === 1 ? '' : 's'}`];
+		if (result.trashed > 0) {
+			summary.push(`moved ${result.trashed} local file${result.trashed === 1 ? '' : 's'} to trash`);
+		}
+		if (result.failed > 0) {
+			summary.push(`${result.failed} failed (see console)`);
+		}
+		new Notice(summary.join(', '));
+	};
+
+	/**
+	 * Downloads images that were pasted as a URL or HTML and uploads them like pasted image data.
+	 * Images that cannot be downloaded are inserted as the original link so the paste is not lost.
+	 */
+	private async pasteRemoteImages(urls: string[], editor: Editor, sourcePath: string) {
+		const progress = new Notice(`Downloading ${urls.length === 1 ? 'image' : `${urls.length} images`}...`, 0);
+		const files: File[] = [];
+		const failedUrls: string[] = [];
+		try {
+			for (const url of urls) {
+				try {
+					files.push(await downloadImage(url));
+				} catch (error) {
+					console.error('Failed to download pasted image:', error);
+					failedUrls.push(url);
+				}
+			}
+		} finally {
+			progress.hide();
+		}
+
+		if (failedUrls.length > 0) {
+			new Notice(`Could not download ${failedUrls.length === 1 ? 'the image' : `${failedUrls.length} images`}, the original link was inserted instead`);
+		}
+		if (files.length > 0) {
+			await this.handleFileUploads(files, editor, sourcePath);
+		}
+		if (failedUrls.length > 0) {
+			editor.replaceSelection(failedUrls.map(url => `![](${url})`).join('\n'));
+		}
+	}
+
+	/**
+	 * Downloads every image a note links to on a third-party host, uploads it and points the link at the upload
+	 */
+	private async rehostExternalImages(note: TFile) {
+		const knownUrls = new Set(this.uploadHistory.map(entry => entry.url)
+			.concat(Object.keys(this.uploadedHashes).map(indexKey => this.uploadedHashes[indexKey].url)));
+		const links = findExternalImageLinks(await this.app.vault.read(note), this.settings.profiles, knownUrls);
+		const urls = Array.from(new Set(links.map(link => link.url)));
+		if (urls.length === 0) {
+			new Notice('No external images found in this note');
+			return;
+		}
+
+		const progress = new Notice(`Re-hosting external images 0/${urls.length}...`, 0);
+		const uploadedUrls = new Map<string, string>();
+		let failed = 0;
+		try {
+			for (const url of urls) {
+				try {
+					const { result: { url: uploadedUrl } } = await this.processAndUpload(await downloadImage(url), note.path);
+					uploadedUrls.set(url, uploadedUrl);
+				} catch (error) {
+					console.error(`Failed to re-host ${url}:`, error);
+					failed++;
+				}
+				progress.setMessage(`Re-hosting external images ${uploadedUrls.size + failed}/${urls.length}...`);
+			}
+		} finally {
+			progress.hide();
+		}
+
+		// Only the URL inside each image link changes, so alt text, sizes and titles are kept
+		await this.app.vault.process(note, (data) => {
+			links.forEach((link) => {
+				const uploadedUrl = uploadedUrls.get(link.url);
+				if (uploadedUrl) {
+					data = data.split(link.original).join(link.original.replace(link.url, () => uploadedUrl));
+				}
+			});
+			return data;
+		});
+
+		const summary = [`Re-hosted ${uploadedUrls.size} image${uploadedUrls.size === 1 ? '' : 's'}`];
+		if (failed > 0) {
+			summary.push(`${failed} failed (see console)`);
+		}
+		new Notice(summary.join(', '));
+	}
+
+	/**
+	 * Writes the settings to pasterly.config.json in the vault root, to share them with a team
+	 * @param includeCredentials - Keep credentials in the file instead of redacting them
+	 */
+	exportSettings(includeCredentials: boolean) {
+		const content = buildConfigFile(this.settings, includeCredentials);
+		const existing = this.app.vault.getAbstractFileByPath(CONFIG_FILE_NAME);
+		const write = async () => {
+			try {
+				if (existing instanceof TFile) {
+					await this.app.vault.modify(existing, content);
+				} else {
+					await this.app.vault.create(CONFIG_FILE_NAME, content);
+				}
+				new Notice(includeCredentials
+					? `Settings exported to ${CONFIG_FILE_NAME}. It contains your credentials, do not share it.`
+					: `Settings exported to ${CONFIG_FILE_NAME} without credentials`);
+			} catch (error) {
+				console.error('Failed to export settings:', error);
+				new Notice(`Failed to export settings: ${(error as Error).message}`);
+			}
+		};
+
+		if (!existing) {
+			write();
+			return;
+		}
+		new ConfirmModal(this.app, {
+			title: 'Export settings',
+			message: `${CONFIG_FILE_NAME} already exists in the vault and will be replaced.`,
+			confirmText: 'Replace',
+			onConfirm: write,
+		}).open();
+	}
+
+	/**
+	 * Replaces the settings with a configuration file picked by the user. Credentials kept on this device stay with
+	 * profiles of the same id and storage target, so a shared file without credentials does not remove them.
+	 * @param onImported - Called once the settings were replaced
+	 */
+	async importSettings(onImported?: () => void) {
+		const text = await pickConfigFile();
+		if (text === null) {
+			return;
+		}
+		let imported: PasterlySettings;
+		try {
+			imported = parseConfigFile(text);
+		} catch (error) {
+			console.error('Failed to import settings:', error);
+			new Notice(`Failed to import settings. ${(error as Error).message}`, 0);
+			return;
+		}
+
+		new ConfirmModal(this.app, {
+			title: 'Import settings',
+			message: `All Pasterly settings are replaced with the ${imported.profiles.length} profile${imported.profiles.length === 1 ? '' : 's'} and options from the file. Credentials stored on this device are kept for profiles that still upload to the same bucket, container or repository.`,
+			confirmText: 'Import',
+			onConfirm: async () => {
+				// Where credentials are kept is decided on each device
+				imported.secretStorage = this.settings.secretStorage;
+				// A matching id alone says nothing, every install has a "default" profile. Credentials and
+				// known uploads only carry over to profiles that still store into the same place.
+				const { secrets } = splitSecrets(this.settings.profiles);
+				const keptSecrets: ProfileSecrets = {};
+				imported.profiles.forEach((profile) => {
+					const current = this.settings.profiles.find(item => item.id === profile.id);
+					if (current && getStorageTarget(current) === getStorageTarget(profile)) {
+						keptSecrets[profile.id] = secrets[profile.id] ?? {};
+					}
+				});
+				mergeSecrets(imported.profiles, keptSecrets);
+				// Device-local profile settings such as the gcloud path stay as they are on this device
+				imported.profiles.forEach((profile) => {
+					const current = this.settings.profiles.find(item => item.id === profile.id);
+					if (current) {
+						DEVICE_PROFILE_SETTINGS.forEach(key => profile[key] = current[key]);
+					}
+				});
+				Object.keys(this.uploadedHashes)
+					.filter(indexKey => !keptSecrets[indexKey.split('/')[0]])
+					.forEach(indexKey => delete this.uploadedHashes[indexKey]);
+				this.settings = imported;
+				await this.saveSettings();
+				await this.initializeStorage();
+				onImported?.();
+
+				const incomplete = imported.profiles.filter(profile => getMissingConfigMessage(profile) !== null);
+				new Notice(incomplete.length === 0
+					? 'Settings imported'
+					: `Settings imported. Add your credentials to: ${incomplete.map(profile => profile.name).join(', ')}`, incomplete.length === 0 ? 5000 : 0);
+			},
+		}).open();
+	}
+
+	/**
+	 * Clears the content-hash index used to reuse earlier uploads
+	 */
+	async clearUploadedHashes() {
+		this.uploadedHashes = {};
+		await this.saveSettings();
+	}
+
 	async onload() {
 		await this.loadSettings();
 		await this.initializeStorage();
+		this.app.workspace.onLayoutReady(() => {
+			if (this.secretsLocked) {
+				this.unlockSecrets();
+			}
+		});
 
 		this.registerEvent(
-			this.app.workspace.on('editor-paste', async (evt: ClipboardEvent, editor: Editor) => {
-				const lastItem = evt.clipboardData?.items[evt.clipboardData.items.length - 1];
-				if (!lastItem?.type.startsWith('image/')) return;
+			this.app.workspace.on('editor-paste', async (evt: ClipboardEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+				if (evt.defaultPrevented) return;
+				// Clipboards often carry HTML or text next to the file, so only images and files matching an attachment rule are uploaded
+				const { uploadable: files } = this.getUploadableFiles(getTransferFiles(evt.clipboardData), info.file?.path ?? '');
+				if (files.length === 0) {
+					// Browsers often copy an image as HTML or as its URL only
+					const urls = navigator.onLine && this.getStorageForNote(info.file?.path ?? '') ? getClipboardImageUrls(evt.clipboardData) : [];
+					if (urls.length === 0) return;
+					evt.preventDefault();
+					await this.pasteRemoteImages(urls, editor, info.file?.path ?? '');
+					return;
+				}
 
-				if (!navigator.onLine) {
+				if (!navigator.onLine && !this.settings.queueFailedUploads) {
 					// Allow default paste behavior when offline
 					return;
 				}
 
 				evt.preventDefault();
-				const file = lastItem.getAsFile();
-				if (!file) return;
+				await this.handleFileUploads(files, editor, info.file?.path ?? '');
+			})
+		);
+
+		this.registerEvent(
+			this.app.workspace.on('editor-drop', async (evt: DragEvent, editor: Editor, info: MarkdownView | MarkdownFileInfo) => {
+				if (evt.defaultPrevented) return;
+				const sourcePath = info.file?.path ?? '';
+				const files = getTransferFiles(evt.dataTransfer);
+				const { uploadable } = this.getUploadableFiles(files, sourcePath);
+				if (uploadable.length === 0) return;
 
-				await this.handleImageUpload(file, editor);
+				if (!navigator.onLine && !this.settings.queueFailedUploads) {
+					// Allow default drop behavior when offline
+					return;
+				}
+
+				evt.preventDefault();
+				moveCursorToDropPoint(editor, evt);
+				// Files without a rule, or over its size limit, are attached locally as Obsidian would
+				const localFiles = files.filter(file => !uploadable.includes(file));
+				if (localFiles.length > 0) {
+					const localEmbeds = await this.saveLocalAttachments(localFiles, sourcePath);
+					editor.replaceSelection(`${localEmbeds.join('\n')}\n`);
+				}
+				await this.handleFileUploads(uploadable, editor, sourcePath);
 			})
 		);
 
+		// Private images: resolve references in reading view, and catch every other view
+		// (live preview, embeds, hover previews) when the browser fails to load the pasterly:// URL
+		this.registerMarkdownPostProcessor(el => this.privateImages.resolveImagesIn(el));
+		this.registerDomEvent(document, 'error', (evt) => {
+			const target = evt.target;
+			if (target instanceof HTMLImageElement && target.getAttribute('src')?.startsWith(PRIVATE_REFERENCE_SCHEME)) {
+				this.privateImages.resolveImage(target);
+			}
+		}, true);
+
+		// Retry queued uploads when connectivity returns and periodically while online
+		this.registerDomEvent(window, 'online', () => this.processUploadQueue());
+		this.registerInterval(window.setInterval(() => this.processUploadQueue(), 60 * 1000));
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.uploadQueue.handleRename(file.path, oldPath).catch(error => console.error('Failed to update queued uploads after a rename:', error));
+					const movedEntries = this.uploadHistory.filter(entry => entry.sourcePath === oldPath);
+					if (movedEntries.length > 0) {
+						movedEntries.forEach(entry => entry.sourcePath = file.path);
+						this.saveSettings();
+						this.refreshUploadHistoryViews();
+					}
+				}
+			})
+		);
+
+		this.registerView(UPLOAD_HISTORY_VIEW_TYPE, (leaf) => new UploadHistoryView(leaf, {
+			getEntries: () => this.uploadHistory,
+			getProfileName: (entry) => {
+				const getName = (profileId: string) => this.settings.profiles.find(profile => profile.id === profileId)?.name ?? 'Deleted profile';
+				// Mirrored uploads list the profile holding the copy as well
+				return entry.backup ? `${getName(entry.profileId)} + ${getName(entry.backup.profileId)}` : getName(entry.profileId);
+			},
+			getLinkUrl: (entry) => this.getHistoryLinkUrl(entry),
+			formatLink: (entry) => this.formatUploadLink(this.getHistoryLinkUrl(entry), {
+				name: entry.key.split('/').pop() || entry.key,
+				type: entry.mimeType || 'image/png',
+				width: entry.width,
+				height: entry.height,
+			}),
+			canDelete: (entry) => !!this.storageProviders.get(entry.profileId)?.deleteImage,
+			deleteEntry: (entry) => this.deleteUploadedImage(entry),
+		}));
+		this.app.workspace.onLayoutReady(() => this.processUploadQueue());
+
+		this.addCommand({
+			id: 'retry-pending-uploads',
+			name: 'Retry pending uploads now',
+			callback: async () => {
+				const pending = this.uploadQueue.pending.length;
+				if (pending === 0) {
+					new Notice('No pending uploads');
+					return;
+				}
+				if (!navigator.onLine) {
+					new Notice(`${pending} pending upload${pending === 1 ? '' : 's'} will be retried when you are back online`);
+					return;
+				}
+				await this.uploadQueue.retryAll();
+				const remaining = this.uploadQueue.pending.length;
+				new Notice(remaining === 0
+					? 'All pending uploads completed'
+					: `${remaining} upload${remaining === 1 ? '' : 's'} still pending. Check the console for details.`);
+			},
+		});
+
+		this.addCommand({
+			id: 'unlock-credentials',
+			name: 'Unlock stored credentials',
+			checkCallback: (checking: boolean) => {
+				if (!this.secretsLocked) return false;
+				if (checking) return true;
+
+				this.unlockSecrets();
+			},
+		});
+
+		this.addCommand({
+			id: 'open-upload-history',
+			name: 'Open upload history',
+			callback: () => this.openUploadHistory(),
+		});
+
+		this.addCommand({
+			id: 'delete-orphaned-images',
+			name: 'Delete orphaned uploaded images',
+			callback: async () => {
+				try {
+					await this.scanForOrphanedImages();
+				} catch (error) {
+					console.error('Orphaned image scan failed:', error);
+					new Notice('Failed to scan for orphaned images. Check the console for details.');
+				}
+			},
+		});
+
+		this.addCommand({
+			id: 'cancel-upload',
+			name: 'Cancel upload',
+			checkCallback: (checking: boolean) => {
+				if (this.uploadTracker.size === 0) return false;
+				if (checking) return true;
+
+				this.cancelUploads(this.app.workspace.activeEditor?.editor);
+			},
+		});
+
+		this.addCommand({
+			id: 'upload-local-images-in-note',
+			name: 'Upload local images in this note',
+			checkCallback: (checking: boolean) => {
+				const note = this.app.workspace.getActiveFile();
+				if (!note || note.extension !== 'md') return false;
+				if (checking) return true;
+
+				const plan = planLocalImageMigration(this.app, [note]);
+				if (plan.images.length === 0) {
+					new Notice('No local images found in this note');
+					return;
+				}
+				this.migrateLocalImages(plan);
+			},
+		});
+
+		this.addCommand({
+			id: 'rehost-external-images',
+			name: 'Re-host external images in this note',
+			checkCallback: (checking: boolean) => {
+				const note = this.app.workspace.getActiveFile();
+				if (!note || note.extension !== 'md') return false;
+				if (checking) return true;
+
+				if (!this.getStorageForNote(note.path)) {
+					new Notice('Storage provider is not initialized. Please check your settings.');
+					return;
+				}
+				this.rehostExternalImages(note);
+			},
+		});
+
+		this.addCommand({
+			id: 'upload-local-images-in-vault',
+			name: 'Upload local images in all notes',
+			callback: () => {
+				const plan = planLocalImageMigration(this.app, this.app.vault.getMarkdownFiles());
+				new LocalImageMigrationModal(this.app, plan, () => this.migrateLocalImages(plan)).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'export-settings',
+			name: 'Export settings without credentials',
+			callback: () => this.exportSettings(false),
+		});
+
+		this.addCommand({
+			id: 'import-settings',
+			name: 'Import settings from file',
+			callback: () => this.importSettings(),
+		});
+
 		this.addSettingTab(new PasterlySettingTab(this.app, this));
 	}
 
 	onunload() {
+		this.uploadTracker.cancelAll();
+		this.privateImages.clear();
 		if (this.initializeTimeout !== null) {
 			window.clearTimeout(this.initializeTimeout);
 			this.initializeTimeout = null;
@@ -202,254 +1211,145 @@ export default class Pasterly extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		const normalizedCdnBaseUrl = normalizeOptionalBaseUrl(this.settings.gcsCdnBaseUrl);
-		const normalizedS3Endpoint = normalizeOptionalBaseUrl(this.settings.s3Endpoint);
-		const normalizedS3PublicBaseUrl = normalizeOptionalBaseUrl(this.settings.s3PublicBaseUrl);
-		if (
-			normalizedCdnBaseUrl !== this.settings.gcsCdnBaseUrl ||
-			normalizedS3Endpoint !== this.settings.s3Endpoint ||
-			normalizedS3PublicBaseUrl !== this.settings.s3PublicBaseUrl
-		) {
-			this.settings.gcsCdnBaseUrl = normalizedCdnBaseUrl;
-			this.settings.s3Endpoint = normalizedS3Endpoint;
-			this.settings.s3PublicBaseUrl = normalizedS3PublicBaseUrl;
+		const savedData = await this.loadData() ?? {};
+		let needsSave = migrateSettings(savedData);
+		// saveSettings writes the current version, it is not a setting
+		delete savedData.settingsVersion;
+		const { pendingUploads, uploadedHashes, uploadHistory, encryptedSecrets, ...savedSettings } = savedData as Partial<PasterlySettings> & {
+			pendingUploads?: PendingUpload[];
+			uploadedHashes?: Record<string, UploadedObject>;
+			uploadHistory?: UploadHistoryEntry[];
+			encryptedSecrets?: EncryptedSecrets;
+		};
+		this.settings = applySettingsDefaults(savedSettings);
+		this.encryptedSecrets = encryptedSecrets ?? null;
+		// Credentials still saved in data.json are moved to the configured store by the save below
+		needsSave = (await this.loadSecrets()) || needsSave;
+		this.uploadedHashes = uploadedHashes ?? {};
+		this.uploadHistory = uploadHistory ?? [];
+		this.uploadQueue = new UploadQueue(this.app, pendingUploads ?? [], {
+			upload: (file, sourcePath) => this.uploadAndFormat(file, sourcePath),
+			persist: () => this.saveSettings(),
+			shouldTrashLocalCopy: () => this.settings.trashQueuedLocalCopies,
+		});
+
+		if (needsSave) {
 			await this.saveSettings();
 		}
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	/**
+	 * Fills in the credentials kept outside data.json
+	 * @returns Whether data.json still holds plaintext credentials that should be moved out
+	 */
+	private async loadSecrets(): Promise<boolean> {
+		const { secretStorage, profiles } = this.settings;
+		const hasPlaintextSecrets = hasSecrets(profiles);
+		if (secretStorage !== 'plaintext') {
+			mergeSecrets(profiles, await this.secretStore.loadFromDevice());
+		}
+		if (secretStorage === 'passphrase' && this.encryptedSecrets) {
+			const secrets = await this.secretStore.decrypt(this.encryptedSecrets);
+			this.secretsLocked = !secrets;
+			mergeSecrets(profiles, secrets ?? {});
+		}
+		return secretStorage !== 'plaintext' && hasPlaintextSecrets;
 	}
-}
 
-/**
- * Settings tab for the Pasterly plugin
- */
-class PasterlySettingTab extends PluginSettingTab {
-	constructor(app: App, private plugin: Pasterly) {
-		super(app, plugin);
-	}
-
-	display(): void {
-		const { containerEl } = this;
-		containerEl.empty();
-
-		// Storage Type Selection
-		new Setting(containerEl)
-			.setName('Storage Provider')
-			.setDesc('Choose your storage backend')
-			.addDropdown(dropdown => dropdown
-				.addOption('firebase', 'Firebase Storage')
-				.addOption('gcs', 'Google Cloud Storage')
-				.addOption('s3', 'S3-compatible Storage (AWS S3 / R2)')
-				.setValue(this.plugin.settings.storageType)
-				.onChange(async (value: 'firebase' | 'gcs' | 's3') => {
-					this.plugin.settings.storageType = value;
-					await this.plugin.saveSettings();
-					this.plugin.debouncedInitializeStorage();
-					this.display(); // Refresh to show/hide relevant settings
-				}));
-
-		// Firebase Settings
-		if (this.plugin.settings.storageType === 'firebase') {
-			new Setting(containerEl)
-				.setName('Firebase Storage Bucket URL')
-				.setDesc('URL of your Firebase Storage bucket (e.g., gs://your-bucket.appspot.com)')
-				.addText(text => text
-					.setPlaceholder('gs://your-bucket.appspot.com')
-					.setValue(this.plugin.settings.firebaseBucketUrl)
-					.onChange(async (value) => {
-						this.plugin.settings.firebaseBucketUrl = value;
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-		}
-
-		// GCS Settings
-		if (this.plugin.settings.storageType === 'gcs') {
-			new Setting(containerEl)
-				.setName('GCS Bucket Name')
-				.setDesc('Name of your Google Cloud Storage bucket (without gs:// prefix)')
-				.addText(text => text
-					.setPlaceholder('my-bucket-name')
-					.setValue(this.plugin.settings.gcsBucketName)
-					.onChange(async (value) => {
-						this.plugin.settings.gcsBucketName = value;
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('Use gcloud CLI for authentication')
-				.setDesc('Automatically get access token by running "gcloud auth print-access-token". Requires gcloud CLI installed and authenticated.')
-				.addToggle(toggle => toggle
-					.setValue(this.plugin.settings.gcsUseGcloudCli)
-					.onChange(async (value) => {
-						this.plugin.settings.gcsUseGcloudCli = value;
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-						this.display(); // Refresh to show/hide token field
-					}));
-
-			// Only show manual token input if gcloud CLI is disabled
-			if (!this.plugin.settings.gcsUseGcloudCli) {
-				new Setting(containerEl)
-					.setName('GCS Access Token')
-					.setDesc('OAuth2 access token (get via: gcloud auth print-access-token). Token expires after ~1 hour.')
-					.addTextArea(text => {
-						text
-							.setPlaceholder('ya29.a0...')
-							.setValue(this.plugin.settings.gcsAccessToken)
-							.onChange(async (value) => {
-								this.plugin.settings.gcsAccessToken = value;
-								await this.plugin.saveSettings();
-								this.plugin.debouncedInitializeStorage();
-							});
-						text.inputEl.rows = 3;
-						text.inputEl.style.width = '100%';
-					});
-
-				// Info notice about token expiration
-				const infoEl = containerEl.createEl('div', {
-					cls: 'setting-item-description',
-					text: '⚠️ Access tokens expire after ~1 hour. You will need to refresh the token periodically.'
-				});
-				infoEl.style.marginBottom = '1em';
-				infoEl.style.color = 'var(--text-warning)';
-			}
+	/**
+	 * Asks for the passphrase and loads the credentials encrypted with it
+	 */
+	unlockSecrets() {
+		const encrypted = this.encryptedSecrets;
+		if (!encrypted) {
+			return;
+		}
+		new PassphraseModal(this.app, {
+			title: 'Unlock Pasterly credentials',
+			description: 'Your storage credentials are encrypted with a passphrase. Enter it once on this device to use them.',
+			confirm: false,
+			onSubmit: async (passphrase) => {
+				const secrets = await this.secretStore.unlock(encrypted, passphrase);
+				if (!secrets) {
+					return 'Wrong passphrase.';
+				}
+				mergeSecrets(this.settings.profiles, secrets);
+				this.secretsLocked = false;
+				await this.saveSettings();
+				await this.initializeStorage();
+				new Notice('Pasterly credentials unlocked');
+				return null;
+			},
+		}).open();
+	}
 
-			new Setting(containerEl)
-				.setName('CDN Base URL')
-				.setDesc('Optional: CDN URL to use instead of storage.googleapis.com (e.g., https://cdn.example.com)')
-				.addText(text => text
-					.setPlaceholder('https://cdn.example.com')
-					.setValue(this.plugin.settings.gcsCdnBaseUrl)
-					.onChange(async (value) => {
-						this.plugin.settings.gcsCdnBaseUrl = normalizeOptionalBaseUrl(value);
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-		}
-
-		if (this.plugin.settings.storageType === 's3') {
-			new Setting(containerEl)
-				.setName('S3 Bucket Name')
-				.setDesc('Bucket name used to store uploaded images')
-				.addText(text => text
-					.setPlaceholder('my-bucket-name')
-					.setValue(this.plugin.settings.s3BucketName)
-					.onChange(async (value) => {
-						this.plugin.settings.s3BucketName = value.trim();
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('S3 Region')
-				.setDesc('AWS region or provider-specific region (for R2 use "auto")')
-				.addText(text => text
-					.setPlaceholder('us-east-1')
-					.setValue(this.plugin.settings.s3Region)
-					.onChange(async (value) => {
-						this.plugin.settings.s3Region = value.trim();
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('S3 Endpoint')
-				.setDesc('Optional for AWS S3. Required for S3-compatible providers such as Cloudflare R2 or MinIO.')
-				.addText(text => text
-					.setPlaceholder('https://<accountid>.r2.cloudflarestorage.com')
-					.setValue(this.plugin.settings.s3Endpoint)
-					.onChange(async (value) => {
-						this.plugin.settings.s3Endpoint = normalizeOptionalBaseUrl(value);
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('Access Key ID')
-				.setDesc('Access key with write permission to the target bucket')
-				.addText(text => text
-					.setPlaceholder('AKIA...')
-					.setValue(this.plugin.settings.s3AccessKeyId)
-					.onChange(async (value) => {
-						this.plugin.settings.s3AccessKeyId = value.trim();
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('Secret Access Key')
-				.setDesc('Secret key stored locally in the Obsidian plugin settings')
-				.addText(text => {
-					text
-						.setPlaceholder('••••••••')
-						.setValue(this.plugin.settings.s3SecretAccessKey)
-						.onChange(async (value) => {
-							this.plugin.settings.s3SecretAccessKey = value.trim();
-							await this.plugin.saveSettings();
-							this.plugin.debouncedInitializeStorage();
-						});
-					text.inputEl.type = 'password';
-				});
+	/**
+	 * Encrypts the credentials with a new passphrase, which this device remembers
+	 */
+	async setPassphrase(passphrase: string) {
+		await this.secretStore.setPassphrase(passphrase);
+		await this.saveSettings();
+	}
 
-			new Setting(containerEl)
-				.setName('Session Token')
-				.setDesc('Optional temporary session token for STS-style credentials')
-				.addTextArea(text => {
-					text
-						.setPlaceholder('IQoJb3JpZ2luX2Vj...')
-						.setValue(this.plugin.settings.s3SessionToken)
-						.onChange(async (value) => {
-							this.plugin.settings.s3SessionToken = value.trim();
-							await this.plugin.saveSettings();
-							this.plugin.debouncedInitializeStorage();
-						});
-					text.inputEl.rows = 2;
-					text.inputEl.style.width = '100%';
-				});
+	async hasPassphrase(): Promise<boolean> {
+		return this.secretStore.hasPassphraseKey();
+	}
 
-			new Setting(containerEl)
-				.setName('Public Base URL')
-				.setDesc('Optional public URL used in markdown output. Recommended for R2 or CDN-backed buckets.')
-				.addText(text => text
-					.setPlaceholder('https://cdn.example.com')
-					.setValue(this.plugin.settings.s3PublicBaseUrl)
-					.onChange(async (value) => {
-						this.plugin.settings.s3PublicBaseUrl = normalizeOptionalBaseUrl(value);
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-
-			new Setting(containerEl)
-				.setName('Use path-style URLs')
-				.setDesc('Enable for providers requiring endpoint/bucket paths instead of bucket-prefixed hostnames')
-				.addToggle(toggle => toggle
-					.setValue(this.plugin.settings.s3ForcePathStyle)
-					.onChange(async (value) => {
-						this.plugin.settings.s3ForcePathStyle = value;
-						await this.plugin.saveSettings();
-						this.plugin.debouncedInitializeStorage();
-					}));
-		}
-
-		// Common Settings
-		new Setting(containerEl)
-			.setName('Fixed Size')
-			.setDesc('Size of the image to attach to the editor (0 for no fixed size)')
-			.addText(text => {
-				text
-					.setValue(this.plugin.settings.imageSize.toString())
-					.onChange(async (value) => {
-						const num = Number(value);
-						if (isNaN(num)) return;
-						this.plugin.settings.imageSize = num;
-						await this.plugin.saveSettings();
-					});
-				text.inputEl.type = "number";
-			});
+	/**
+	 * Drops credentials whose passphrase was forgotten, so new ones can be entered
+	 */
+	async discardEncryptedSecrets() {
+		this.encryptedSecrets = null;
+		this.secretsLocked = false;
+		this.secretStore.clearPassphrase();
+		// A new passphrase has to be set before passphrase storage is used again
+		this.settings.secretStorage = 'device';
+		await this.saveSettings();
+		await this.initializeStorage();
+	}
+
+	/**
+	 * Makes this device ask for the passphrase again on the next start
+	 */
+	forgetPassphrase() {
+		this.secretStore.forgetPassphrase();
+	}
+
+	isDeviceEncryptionAvailable(): boolean {
+		return this.secretStore.isDeviceEncryptionAvailable();
+	}
+
+	async saveSettings() {
+		const { profiles, secrets } = this.settings.secretStorage === 'plaintext'
+			? { profiles: this.settings.profiles, secrets: {} }
+			: splitSecrets(this.settings.profiles);
+
+		if (this.settings.secretStorage === 'passphrase') {
+			const encrypted = this.secretsLocked ? null : await this.secretStore.encrypt(secrets);
+			if (encrypted) {
+				this.encryptedSecrets = encrypted;
+				this.secretStore.clearDevice();
+			} else {
+				// Until the passphrase is entered, new credentials wait on this device and the encrypted ones are kept as they are
+				await this.secretStore.saveToDevice(secrets);
+			}
+		} else {
+			this.encryptedSecrets = null;
+			if (this.settings.secretStorage === 'device') {
+				await this.secretStore.saveToDevice(secrets);
+			} else {
+				this.secretStore.clearDevice();
+			}
+		}
+
+		await this.saveData({
+			...this.settings,
+			settingsVersion: SETTINGS_VERSION,
+			profiles,
+			encryptedSecrets: this.encryptedSecrets ?? undefined,
+			pendingUploads: this.uploadQueue.pending,
+			uploadedHashes: this.uploadedHashes,
+			uploadHistory: this.uploadHistory,
+		});
 	}
 }
@@ -0,0 +1,181 @@
+import { moment } from 'obsidian';
+
+/**
+ * Reproduces the original hard-coded `pasterly/image_<timestamp>_<rand>.<ext>` naming
+ */
+export const DEFAULT_OBJECT_KEY_TEMPLATE = 'pasterly/image_{timestamp}_{random}.{ext}';
+
+export interface ObjectKeyContext {
+	file: File;
+	vaultName: string;
+	notePath: string; // Vault path of the note the file belongs to, empty when unknown
+	hash?: string;    // Precomputed content hash, computed on demand otherwise
+}
+
+const TEMPLATE_VARIABLE = /\{(\w+)(?::([^}]*))?\}/g;
+
+// Larger files are hashed chunk by chunk so a long recording is never read into memory at once
+const HASH_CHUNK_SIZE = 16 * 1024 * 1024;
+// Hex digits of a SHA-256 digest
+const HASH_LENGTH = 64;
+
+const toHex = (buffer: ArrayBuffer): string => {
+	return Array.from(new Uint8Array(buffer))
+		.map(byte => `0${byte.toString(16)}`.slice(-2))
+		.join('');
+};
+
+/**
+ * Returns the lowercase hex SHA-256 digest of the file content.
+ * Files over 16 MB get the SHA-256 of their concatenated 16 MB chunk digests instead,
+ * which is just as stable for identical content.
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+	if (file.size <= HASH_CHUNK_SIZE) {
+		return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+	}
+	const chunkDigests = new Uint8Array(Math.ceil(file.size / HASH_CHUNK_SIZE) * 32);
+	for (let start = 0; start < file.size; start += HASH_CHUNK_SIZE) {
+		const digest = await crypto.subtle.digest('SHA-256', await file.slice(start, start + HASH_CHUNK_SIZE).arrayBuffer());
+		chunkDigests.set(new Uint8Array(digest), (start / HASH_CHUNK_SIZE) * 32);
+	}
+	return toHex(await crypto.subtle.digest('SHA-256', chunkDigests));
+};
+
+const generateUuid = (): string => {
+	if (typeof crypto.randomUUID === 'function') {
+		return crypto.randomUUID();
+	}
+	const bytes = crypto.getRandomValues(new Uint8Array(16));
+	bytes[6] = (bytes[6] & 0x0f) | 0x40;
+	bytes[8] = (bytes[8] & 0x3f) | 0x80;
+	const hex = Array.from(bytes).map(byte => `0${byte.toString(16)}`.slice(-2)).join('');
+	return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+};
+
+/**
+ * Makes a variable value safe to use inside an object key and a markdown link
+ */
+const sanitizeSegment = (value: string): string => {
+	return value
+		.replace(/[\\?#%*:|"<>[\]()]/g, '-')
+		.replace(/\s+/g, '-');
+};
+
+const splitFileName = (name: string): { baseName: string; extension: string } => {
+	const dotIndex = name.lastIndexOf('.');
+	if (dotIndex <= 0) {
+		return { baseName: name, extension: '' };
+	}
+	return { baseName: name.substring(0, dotIndex), extension: name.substring(dotIndex + 1) };
+};
+
+/**
+ * Whether the template yields a different key for every upload
+ */
+export const isUniqueKeyTemplate = (template: string): boolean => {
+	return /\{(hash|uuid|timestamp|random)(:[^}]*)?\}/.test(template);
+};
+
+/**
+ * Whether the template derives the key from the full content hash alone,
+ * so an existing object under the same key holds the same content.
+ * A shortened hash such as {hash:8} collides too easily to reuse objects by key.
+ */
+export const isContentAddressedKeyTemplate = (template: string): boolean => {
+	const hasFullHash = (template.match(/\{hash(?::[^}]*)?\}/g) ?? []).some((variable) => {
+		const length = Number(variable.slice(6, -1));
+		return variable === '{hash}' || !length || length >= HASH_LENGTH;
+	});
+	return hasFullHash && !/\{(uuid|timestamp|random)\}/.test(template);
+};
+
+/**
+ * Builds the object key for an upload from a template such as
+ * `{vault}/{notePath}/{date:YYYY/MM/DD}/{originalName}-{hash:8}.{ext}`
+ *
+ * Supported variables: {vault}, {notePath}, {noteName}, {date[:FORMAT]}, {hash[:LENGTH]},
+ * {originalName}, {ext}, {uuid}, {timestamp}, {random}
+ */
+export const buildObjectKey = async (template: string, context: ObjectKeyContext): Promise<string> => {
+	const { file, vaultName, notePath } = context;
+	const { baseName, extension } = splitFileName(file.name);
+	const now = moment();
+	const hash = context.hash || (template.includes('{hash') ? await hashFile(file) : '');
+	const noteWithoutExtension = notePath.replace(/\.md$/i, '');
+
+	const key = (template.trim() || DEFAULT_OBJECT_KEY_TEMPLATE).replace(TEMPLATE_VARIABLE, (match: string, name: string, argument?: string) => {
+		switch (name) {
+			case 'vault':
+				return sanitizeSegment(vaultName);
+			case 'notePath':
+				// Keep the folder structure of the note
+				return noteWithoutExtension.split('/').map(sanitizeSegment).join('/') || 'unsorted';
+			case 'noteName':
+				return sanitizeSegment(noteWithoutExtension.split('/').pop() || '') || 'unsorted';
+			case 'date':
+				return now.format(argument || 'YYYY-MM-DD').split('/').map(sanitizeSegment).join('/');
+			case 'hash':
+				return argument ? hash.substring(0, Number(argument) || hash.length) : hash;
+			case 'originalName':
+				return sanitizeSegment(baseName) || 'image';
+			case 'ext':
+				return sanitizeSegment(extension.toLowerCase() || file.type.split('/').pop() || 'png');
+			case 'uuid':
+				return generateUuid();
+			case 'timestamp':
+				return now.valueOf().toString();
+			case 'random':
+				return Math.random().toString(36).substring(2, 8);
+			default:
+				return match;
+		}
+	});
+
+	// Drop empty, relative and leading segments so every provider receives a clean path
+	return key
+		.split('/')
+		.filter(segment => segment && segment !== '.' && segment !== '..')
+		.join('/');
+};
+
+/**
+ * Makes a key unique the way {random} does, for an upload whose key is already taken:
+ * `pasterly/diagram.png` becomes `pasterly/diagram-k3j9x2.png`
+ */
+export const addUniqueSuffix = (key: string): string => {
+	const slashIndex = key.lastIndexOf('/');
+	const { baseName, extension } = splitFileName(key.substring(slashIndex + 1));
+	const suffix = Math.random().toString(36).substring(2, 8);
+	return `${key.substring(0, slashIndex + 1)}${baseName}-${suffix}${extension ? `.${extension}` : ''}`;
+};
+
+/**
+ * Returns the fixed leading folders shared by every key the template builds, e.g. `pasterly/` for the default template.
+ * `{vault}` is resolved; any other variable ends the prefix. Empty when the first folder is not fixed.
+ */
+export const getKeyTemplatePrefix = (template: string, vaultName: string): string => {
+	const fixedPart = (template.trim() || DEFAULT_OBJECT_KEY_TEMPLATE)
+		.replace(/\{vault\}/g, sanitizeSegment(vaultName))
+		.split('{')[0];
+	const folders = fixedPart
+		.substring(0, fixedPart.lastIndexOf('/') + 1)
+		.split('/')
+		.filter(segment => segment && segment !== '.' && segment !== '..');
+	return folders.length > 0 ? `${folders.join('/')}/` : '';
+};
+
+/**
+ * Whether the fixed leading folders of the template include `{vault}`, so no other vault uploads under its prefix
+ */
+export const isVaultScopedKeyTemplate = (template: string): boolean => {
+	const fixedPart = (template.trim() || DEFAULT_OBJECT_KEY_TEMPLATE).split(/\{(?!vault\})/)[0];
+	return fixedPart.substring(0, fixedPart.lastIndexOf('/') + 1).includes('{vault}');
+};
+
+/**
+ * Percent-encodes each segment of an object key for use in a URL
+ */
+export const encodeKeyForUrl = (key: string): string => {
+	return key.split('/').map(encodeURIComponent).join('/');
+};
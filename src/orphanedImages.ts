@@ -0,0 +1,171 @@
+import { App, Modal, Setting } from 'obsidian';
+import { StorageProfile, StorageProvider, UploadHistoryEntry } from './types';
+import { encodeKeyForUrl, getKeyTemplatePrefix, isVaultScopedKeyTemplate } from './objectKey';
+
+/**
+ * A remote object that no note links to anymore
+ */
+export interface OrphanedImage {
+	profileId: string;
+	key: string;
+	size: number;
+}
+
+export interface OrphanScan {
+	orphans: OrphanedImage[];
+	scannedFiles: number;
+	warnings: string[];  // Profiles that could only be checked partially or not at all
+}
+
+interface OrphanScanOptions {
+	profiles: StorageProfile[];
+	getProvider: (profileId: string) => StorageProvider | undefined;
+	history: UploadHistoryEntry[];
+	keyTemplate: string;
+	/** Markdown of uploads that are done but not written into a note yet, such as queued ones */
+	pendingMarkdown: string[];
+}
+
+// Matches http(s) links as well as custom schemes, stopping at markdown and HTML delimiters.
+// Apostrophes are kept: keys may contain them, and a quote closing an HTML attribute only makes the match longer.
+const URL_PATTERN = /[a-z][a-z0-9+.-]*:\/\/[^\s)"<>\]]+/gi;
+
+const collectUrls = (content: string, urls: Set<string>) => {
+	(content.match(URL_PATTERN) ?? []).forEach((url) => {
+		urls.add(url);
+		try {
+			// Links written with a different encoding than the provider's still point at the key
+			urls.add(decodeURIComponent(url));
+		} catch (error) {
+			// Not valid percent-encoding, the URL as written is enough
+		}
+	});
+};
+
+/**
+ * Collects every URL written in a markdown note or canvas of the vault, and in uploads not written into a note yet
+ */
+const collectReferencedUrls = async (app: App, pendingMarkdown: string[]): Promise<{ urls: string; scannedFiles: number }> => {
+	const urls = new Set<string>();
+	const files = app.vault.getFiles().filter(file => file.extension === 'md' || file.extension === 'canvas');
+	for (const file of files) {
+		collectUrls(await app.vault.cachedRead(file), urls);
+	}
+	pendingMarkdown.forEach(markdown => collectUrls(markdown, urls));
+	return { urls: Array.from(urls).join('\n'), scannedFiles: files.length };
+};
+
+/**
+ * Whether any collected URL points at the key. Providers encode keys differently:
+ * per segment (S3, GCS, WebDAV) or as a single component (Firebase download URLs).
+ */
+const isKeyReferenced = (urls: string, key: string): boolean => {
+	return urls.includes(key) || urls.includes(encodeKeyForUrl(key)) || urls.includes(encodeURIComponent(key));
+};
+
+/**
+ * Finds uploaded objects that no note references anymore.
+ * Candidates are the upload history plus, where the provider supports listing and the template
+ * starts with a folder named after the vault, every object under that prefix.
+ */
+export const findOrphanedImages = async (app: App, options: OrphanScanOptions): Promise<OrphanScan> => {
+	const { urls, scannedFiles } = await collectReferencedUrls(app, options.pendingMarkdown);
+	// Other vaults and teammates upload under shared folders like the default `pasterly/`, only a vault folder is this vault's alone
+	const prefix = isVaultScopedKeyTemplate(options.keyTemplate) ? getKeyTemplatePrefix(options.keyTemplate, app.vault.getName()) : '';
+	const scan: OrphanScan = { orphans: [], scannedFiles, warnings: [] };
+
+	for (const profile of options.profiles) {
+		const provider = options.getProvider(profile.id);
+		const candidates = new Map<string, number>();
+		options.history
+			.filter(entry => entry.profileId === profile.id)
+			.forEach(entry => candidates.set(entry.key, entry.size));
+		// Mirror copies share the key of their upload, so they count as referenced exactly as long as it does
+		options.history.forEach((entry) => {
+			if (entry.backup?.profileId === profile.id) {
+				candidates.set(entry.backup.key, entry.size);
+			}
+		});
+		if (!provider?.deleteImage) {
+			if (candidates.size > 0) {
+				scan.warnings.push(`Profile "${profile.name}" was skipped because its storage cannot delete images.`);
+			}
+			continue;
+		}
+
+		if (provider.listObjects && prefix) {
+			try {
+				(await provider.listObjects(prefix)).forEach(object => candidates.set(object.key, object.size));
+			} catch (error) {
+				console.error(`Failed to list objects of profile "${profile.name}":`, error);
+				scan.warnings.push(`Profile "${profile.name}": the bucket could not be listed, only the upload history was checked.`);
+			}
+		} else if (provider.listObjects) {
+			scan.warnings.push(`Profile "${profile.name}": only this vault's upload history was checked, since the object key template does not start with a {vault} folder that other vaults cannot share.`);
+		}
+
+		candidates.forEach((size, key) => {
+			if (!isKeyReferenced(urls, key)) {
+				scan.orphans.push({ profileId: profile.id, key, size });
+			}
+		});
+	}
+
+	return scan;
+};
+
+/**
+ * Lists the orphaned objects and confirms before deleting them
+ */
+export class OrphanedImagesModal extends Modal {
+	constructor(
+		app: App,
+		private readonly scan: OrphanScan,
+		private readonly getProfileName: (profileId: string) => string,
+		private readonly onConfirm: () => void
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, scan } = this;
+		this.titleEl.setText('Orphaned uploaded images');
+
+		scan.warnings.forEach(warning => contentEl.createEl('p', { text: warning, cls: 'mod-warning' }));
+
+		if (scan.orphans.length === 0) {
+			contentEl.createEl('p', { text: `Every uploaded image is still referenced in your ${scan.scannedFiles} notes.` });
+			return;
+		}
+
+		const totalBytes = scan.orphans.reduce((sum, orphan) => sum + orphan.size, 0);
+		contentEl.createEl('p', {
+			text: `${scan.orphans.length} object${scan.orphans.length === 1 ? ' is' : 's are'} (${(totalBytes / 1024 / 1024).toFixed(1)} MB) ` +
+				`not referenced in any of your ${scan.scannedFiles} notes and canvases. ` +
+				'Objects that are only linked from other vaults or outside Obsidian are included, so review the list before deleting.',
+		});
+
+		const showProfileName = new Set(scan.orphans.map(orphan => orphan.profileId)).size > 1;
+		// Every object that would be deleted is listed, the list scrolls when it is long
+		const listEl = contentEl.createEl('ul', { cls: 'pasterly-orphan-list' });
+		scan.orphans.forEach((orphan) => {
+			listEl.createEl('li', { text: showProfileName ? `${this.getProfileName(orphan.profileId)}: ${orphan.key}` : orphan.key });
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(`Delete ${scan.orphans.length} object${scan.orphans.length === 1 ? '' : 's'}`)
+				.setWarning()
+				.onClick(() => {
+					this.close();
+					this.onConfirm();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
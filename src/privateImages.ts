@@ -0,0 +1,133 @@
+import { StorageProvider } from './types';
+import { encodeKeyForUrl } from './objectKey';
+
+/**
+ * Scheme of the stable references written into notes for private profiles, e.g. `pasterly://<profile id>/<key>`
+ */
+export const PRIVATE_REFERENCE_SCHEME = 'pasterly://';
+
+// Signed URLs are issued for an hour; refresh them well before they expire
+const CACHE_TTL_MS = 50 * 60 * 1000;
+// Downloaded images are kept in memory, so only the most recently shown ones are cached
+const MAX_CACHED_IMAGES = 200;
+
+interface CachedUrl {
+	url: string;
+	expiresAt: number;
+}
+
+/**
+ * Returns the reference stored in notes for an object of a private profile
+ */
+export const buildPrivateReference = (profileId: string, key: string): string => {
+	return `${PRIVATE_REFERENCE_SCHEME}${encodeURIComponent(profileId)}/${encodeKeyForUrl(key)}`;
+};
+
+/**
+ * Splits a private reference into its profile id and object key
+ * @returns null when the value is not a private reference
+ */
+export const parsePrivateReference = (reference: string): { profileId: string; key: string } | null => {
+	if (!reference.startsWith(PRIVATE_REFERENCE_SCHEME)) {
+		return null;
+	}
+	const path = reference.substring(PRIVATE_REFERENCE_SCHEME.length);
+	const separatorIndex = path.indexOf('/');
+	if (separatorIndex <= 0 || separatorIndex === path.length - 1) {
+		return null;
+	}
+	try {
+		return {
+			profileId: decodeURIComponent(path.substring(0, separatorIndex)),
+			key: path.substring(separatorIndex + 1).split('/').map(decodeURIComponent).join('/'),
+		};
+	} catch (error) {
+		return null;
+	}
+};
+
+/**
+ * Resolves private references into short-lived URLs the renderer can load,
+ * caching them in memory so every render does not sign or download again
+ */
+export class PrivateImageResolver {
+	private cache = new Map<string, CachedUrl>();
+	private pending = new Map<string, Promise<string>>();
+
+	constructor(private readonly getProvider: (profileId: string) => StorageProvider | undefined) {}
+
+	async resolve(reference: string): Promise<string> {
+		const cached = this.cache.get(reference);
+		if (cached && cached.expiresAt > Date.now()) {
+			return cached.url;
+		}
+		if (cached) {
+			this.evict(reference);
+		}
+
+		let request = this.pending.get(reference);
+		if (!request) {
+			request = this.fetchUrl(reference).finally(() => this.pending.delete(reference));
+			this.pending.set(reference, request);
+		}
+		return request;
+	}
+
+	private async fetchUrl(reference: string): Promise<string> {
+		const parsed = parsePrivateReference(reference);
+		if (!parsed) {
+			throw new Error(`Invalid private image reference: ${reference}`);
+		}
+		const provider = this.getProvider(parsed.profileId);
+		if (!provider?.getPrivateUrl) {
+			throw new Error('The storage profile of this image is missing or cannot serve private images.');
+		}
+
+		const url = await provider.getPrivateUrl(parsed.key);
+		this.cache.set(reference, { url, expiresAt: Date.now() + CACHE_TTL_MS });
+		while (this.cache.size > MAX_CACHED_IMAGES) {
+			this.evict(this.cache.keys().next().value as string);
+		}
+		return url;
+	}
+
+	private evict(reference: string) {
+		const cached = this.cache.get(reference);
+		if (cached?.url.startsWith('blob:')) {
+			URL.revokeObjectURL(cached.url);
+		}
+		this.cache.delete(reference);
+	}
+
+	/**
+	 * Points an image at the resolved URL of its private reference, keeping the reference for re-renders
+	 */
+	async resolveImage(image: HTMLImageElement) {
+		const reference = image.getAttribute('src') ?? '';
+		if (!reference.startsWith(PRIVATE_REFERENCE_SCHEME)) {
+			return;
+		}
+		image.dataset.pasterlyReference = reference;
+		try {
+			image.src = await this.resolve(reference);
+		} catch (error) {
+			console.error('Failed to load private image:', error);
+			image.alt = image.alt || 'Private image could not be loaded';
+		}
+	}
+
+	/**
+	 * Resolves every private image inside an element
+	 */
+	resolveImagesIn(containerEl: HTMLElement) {
+		containerEl.querySelectorAll<HTMLImageElement>(`img[src^="${PRIVATE_REFERENCE_SCHEME}"]`)
+			.forEach(image => this.resolveImage(image));
+	}
+
+	/**
+	 * Drops every cached URL, e.g. after the storage settings changed
+	 */
+	clear() {
+		Array.from(this.cache.keys()).forEach(reference => this.evict(reference));
+	}
+}
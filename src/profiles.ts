@@ -0,0 +1,185 @@
+import { App, getAllTags } from 'obsidian';
+import { DEFAULT_STORAGE_CONFIG, PasterlySettings, RoutingRule, StorageConfig, StorageProfile } from './types';
+
+/**
+ * Frontmatter key that selects a profile by name or id, e.g. `pasterly-profile: team`
+ */
+export const PROFILE_FRONTMATTER_KEY = 'pasterly-profile';
+
+/**
+ * Creates a profile with default provider settings
+ */
+export const createProfile = (name: string, config: Partial<StorageConfig> = {}): StorageProfile => {
+	return {
+		...DEFAULT_STORAGE_CONFIG,
+		...config,
+		id: `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`,
+		name,
+	};
+};
+
+/**
+ * Identifies where a profile stores its objects: the storage type and its bucket, container, server or repository
+ */
+export const getStorageTarget = (config: StorageConfig): string => {
+	switch (config.storageType) {
+		case 'firebase':
+			return JSON.stringify([config.storageType, config.firebaseBucketUrl]);
+		case 'gcs':
+			return JSON.stringify([config.storageType, config.gcsBucketName]);
+		case 's3':
+			return JSON.stringify([config.storageType, config.s3Endpoint, config.s3Region, config.s3BucketName]);
+		case 'webdav':
+			return JSON.stringify([config.storageType, config.webdavUrl]);
+		case 'custom':
+			return JSON.stringify([config.storageType, config.customUrl]);
+		case 'azure':
+			return JSON.stringify([config.storageType, config.azureEndpoint, config.azureAccountName, config.azureContainer]);
+		case 'git':
+			return JSON.stringify([config.storageType, config.gitHost, config.gitApiUrl, config.gitRepository, config.gitBranch]);
+		default:
+			return JSON.stringify([config.storageType]);
+	}
+};
+
+/**
+ * Returns a message describing the first missing required setting of a profile, or null when it is complete
+ */
+export const getMissingConfigMessage = (config: StorageConfig): string | null => {
+	switch (config.storageType) {
+		case 'firebase':
+			return config.firebaseBucketUrl ? null : 'Please set your Firebase Storage bucket URL in settings first.';
+		case 'gcs':
+			if (!config.gcsBucketName) {
+				return 'Please set your GCS bucket name in settings first.';
+			}
+			if (config.gcsAuthType === 'token' && !config.gcsAccessToken) {
+				return 'Please set your GCS access token or choose another authentication method in settings.';
+			}
+			if (config.gcsAuthType === 'serviceAccount' && !config.gcsServiceAccountKey.trim()) {
+				return 'Please paste your GCS service account key in settings first.';
+			}
+			return null;
+		case 's3':
+			if (!config.s3BucketName) {
+				return 'Please set your S3 bucket name in settings first.';
+			}
+			if (!config.s3Region) {
+				return 'Please set your S3 region in settings first.';
+			}
+			if (config.s3CredentialSource === 'settings' && (!config.s3AccessKeyId || !config.s3SecretAccessKey)) {
+				return 'Please set your S3 credentials in settings first.';
+			}
+			return null;
+		case 'webdav':
+			if (!config.webdavUrl) {
+				return 'Please set your WebDAV URL in settings first.';
+			}
+			if (config.webdavAuthType === 'basic' && !config.webdavUsername) {
+				return 'Please set your WebDAV username in settings first.';
+			}
+			if (config.webdavAuthType === 'bearer' && !config.webdavToken) {
+				return 'Please set your WebDAV token in settings first.';
+			}
+			return null;
+		case 'custom':
+			if (config.privateMode) {
+				return 'Private mode is not available for custom HTTP endpoints. Disable it in settings.';
+			}
+			return config.customUrl ? null : 'Please set your custom upload URL in settings first.';
+		case 'azure':
+			if (!config.azureAccountName || !config.azureContainer) {
+				return 'Please set your Azure storage account and container in settings first.';
+			}
+			if (config.azureAuthType === 'sharedKey' ? !config.azureAccountKey : !config.azureSasToken) {
+				return 'Please set your Azure SAS token or account key in settings first.';
+			}
+			return null;
+		case 'git':
+			if (!/^[^/\s]+\/[^/\s]+$/.test(config.gitRepository.trim())) {
+				return 'Please set your git repository as owner/repo in settings first.';
+			}
+			if (config.gitHost === 'gitea' && !config.gitApiUrl) {
+				return 'Please set your Gitea server URL in settings first.';
+			}
+			if (!config.gitToken) {
+				return 'Please set your git access token in settings first.';
+			}
+			if (config.gitUrlType === 'jsdelivr' && config.gitHost !== 'github') {
+				return 'jsDelivr only serves GitHub repositories. Choose another URL type in settings.';
+			}
+			if (config.gitUrlType === 'custom' && !config.gitCustomBaseUrl) {
+				return 'Please set the custom base URL of your git repository in settings first.';
+			}
+			return null;
+		default:
+			return null;
+	}
+};
+
+const matchesRule = (app: App, rule: RoutingRule, notePath: string): boolean => {
+	const value = rule.value.trim();
+	if (!value) {
+		return false;
+	}
+
+	if (rule.type === 'folder') {
+		const folder = value.replace(/^\/+|\/+$/g, '');
+		return folder === '' || notePath === folder || notePath.startsWith(`${folder}/`);
+	}
+
+	const note = app.vault.getFileByPath(notePath);
+	const cache = note ? app.metadataCache.getFileCache(note) : null;
+	if (!cache) {
+		return false;
+	}
+
+	if (rule.type === 'tag') {
+		const tag = value.replace(/^#/, '').toLowerCase();
+		// Nested tags such as #project/alpha also match a rule for "project"
+		return (getAllTags(cache) ?? [])
+			.map(noteTag => noteTag.replace(/^#/, '').toLowerCase())
+			.some(noteTag => noteTag === tag || noteTag.startsWith(`${tag}/`));
+	}
+
+	// Frontmatter rules are written as "key: value", or just "key" to match any value
+	const separatorIndex = value.indexOf(':');
+	const key = (separatorIndex >= 0 ? value.substring(0, separatorIndex) : value).trim();
+	const expected = separatorIndex >= 0 ? value.substring(separatorIndex + 1).trim() : null;
+	const actual: unknown = cache.frontmatter?.[key];
+	if (actual === undefined || actual === null) {
+		return false;
+	}
+	if (expected === null) {
+		return true;
+	}
+	const actualValues: unknown[] = Array.isArray(actual) ? actual : [actual];
+	return actualValues.some(item => String(item) === expected);
+};
+
+/**
+ * Picks the storage profile for a note: the `pasterly-profile` frontmatter key first,
+ * then the routing rules in order, then the default profile
+ */
+export const resolveProfile = (app: App, settings: PasterlySettings, notePath: string): StorageProfile | null => {
+	const findProfile = (idOrName: string) => settings.profiles.find(
+		profile => profile.id === idOrName || profile.name.toLowerCase() === idOrName.toLowerCase()
+	);
+
+	if (notePath) {
+		const note = app.vault.getFileByPath(notePath);
+		const requested: unknown = note ? app.metadataCache.getFileCache(note)?.frontmatter?.[PROFILE_FRONTMATTER_KEY] : undefined;
+		const requestedProfile = typeof requested === 'string' ? findProfile(requested.trim()) : undefined;
+		if (requestedProfile) {
+			return requestedProfile;
+		}
+
+		const rule = settings.routingRules.find(item => matchesRule(app, item, notePath));
+		const ruleProfile = rule ? findProfile(rule.profileId) : undefined;
+		if (ruleProfile) {
+			return ruleProfile;
+		}
+	}
+
+	return findProfile(settings.defaultProfileId) ?? settings.profiles[0] ?? null;
+};
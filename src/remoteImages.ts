@@ -0,0 +1,126 @@
+import { requestUrl } from 'obsidian';
+import { StorageProfile } from './types';
+import { getExtensionForMimeType, getMimeType } from './localImages';
+
+/**
+ * An image link in a note that points at a third-party host
+ */
+export interface ExternalImageLink {
+	original: string;  // The full link as written, e.g. ![alt](https://example.com/a.png "title")
+	url: string;
+}
+
+const IMAGE_EXTENSION_PATTERN = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i;
+const MARKDOWN_IMAGE_PATTERN = /!\[[^\]]*\]\(\s*<?(https?:\/\/[^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+const isHttpUrl = (value: string): boolean => /^https?:\/\/\S+$/i.test(value);
+
+/**
+ * Finds images a browser put on the clipboard as HTML or as a plain URL instead of image data.
+ * HTML is only used when it holds nothing but images, so copied text with inline images pastes as usual.
+ */
+export const getClipboardImageUrls = (clipboardData: DataTransfer | null): string[] => {
+	if (!clipboardData) {
+		return [];
+	}
+
+	const html = clipboardData.getData('text/html');
+	if (html) {
+		const doc = new DOMParser().parseFromString(html, 'text/html');
+		const urls = Array.from(doc.querySelectorAll('img'))
+			.map(image => image.getAttribute('src') ?? '')
+			.filter(isHttpUrl);
+		if (urls.length > 0 && !doc.body.textContent?.trim()) {
+			return urls;
+		}
+	}
+
+	const text = clipboardData.getData('text/plain').trim();
+	if (isHttpUrl(text)) {
+		try {
+			if (IMAGE_EXTENSION_PATTERN.test(new URL(text).pathname)) {
+				return [text];
+			}
+		} catch (error) {
+			return [];
+		}
+	}
+	return [];
+};
+
+/**
+ * Downloads an image so it can be uploaded to the user's own storage
+ */
+export const downloadImage = async (url: string): Promise<File> => {
+	const response = await requestUrl({ url, method: 'GET', throw: false });
+	if (response.status < 200 || response.status >= 300) {
+		throw new Error(`Downloading ${url} failed with status ${response.status}`);
+	}
+
+	const path = new URL(url).pathname;
+	let name = '';
+	try {
+		name = decodeURIComponent(path.split('/').pop() ?? '');
+	} catch (error) {
+		name = path.split('/').pop() ?? '';
+	}
+	const headerType = (response.headers['content-type'] || response.headers['Content-Type'] || '').split(';')[0].trim().toLowerCase();
+	const extension = name.includes('.') ? name.split('.').pop() ?? '' : '';
+	// Some hosts send images as application/octet-stream, so the extension decides then
+	const mimeType = headerType.startsWith('image/') ? headerType : getMimeType(extension);
+	if (!mimeType.startsWith('image/')) {
+		throw new Error(`${url} is not an image (${headerType || 'unknown type'})`);
+	}
+
+	const baseName = (name.includes('.') ? name.substring(0, name.lastIndexOf('.')) : name).replace(/[\\/:*?"<>|]/g, '-') || 'image';
+	return new File([response.arrayBuffer], `${baseName}.${extension || getExtensionForMimeType(mimeType)}`, { type: mimeType });
+};
+
+/**
+ * URL prefixes under which a profile's uploads are served
+ */
+const getProfileUrlPrefixes = (profile: StorageProfile): string[] => {
+	const prefixes = [profile.gcsCdnBaseUrl, profile.s3PublicBaseUrl, profile.webdavPublicBaseUrl, profile.webdavUrl, profile.azureCdnBaseUrl, profile.gitCustomBaseUrl];
+	switch (profile.storageType) {
+		case 'firebase':
+			prefixes.push(`https://firebasestorage.googleapis.com/v0/b/${profile.firebaseBucketUrl.replace(/^gs:\/\//, '')}/`);
+			break;
+		case 'gcs':
+			prefixes.push(`https://storage.googleapis.com/${profile.gcsBucketName}/`);
+			break;
+		case 's3':
+			prefixes.push(profile.s3Endpoint ? `${profile.s3Endpoint}/${profile.s3BucketName}/` : `https://${profile.s3BucketName}.s3.`);
+			break;
+		case 'azure':
+			prefixes.push(profile.azureEndpoint
+				? `${profile.azureEndpoint}/${profile.azureContainer}/`
+				: `https://${profile.azureAccountName}.blob.core.windows.net/${profile.azureContainer}/`);
+			break;
+		case 'git':
+			prefixes.push(
+				`https://raw.githubusercontent.com/${profile.gitRepository}/`,
+				`https://cdn.jsdelivr.net/gh/${profile.gitRepository}@`,
+				`${(profile.gitApiUrl || 'https://github.com').replace(/\/api\/v3\/?$/, '').replace(/\/$/, '')}/${profile.gitRepository}/raw/`
+			);
+			break;
+	}
+	return prefixes.filter(prefix => prefix && !prefix.endsWith('//'));
+};
+
+/**
+ * Finds image links to third-party hosts, skipping links into any of the profiles' storage
+ * @param knownUrls - URLs Pasterly uploaded before
+ */
+export const findExternalImageLinks = (content: string, profiles: StorageProfile[], knownUrls: Set<string>): ExternalImageLink[] => {
+	const ownPrefixes = profiles.reduce<string[]>((prefixes, profile) => prefixes.concat(getProfileUrlPrefixes(profile)), []);
+	const links: ExternalImageLink[] = [];
+	let match: RegExpExecArray | null;
+	MARKDOWN_IMAGE_PATTERN.lastIndex = 0;
+	while ((match = MARKDOWN_IMAGE_PATTERN.exec(content)) !== null) {
+		const url = match[1];
+		if (!knownUrls.has(url) && !ownPrefixes.some(prefix => url.startsWith(prefix))) {
+			links.push({ original: match[0], url });
+		}
+	}
+	return links;
+};
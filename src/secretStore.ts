@@ -0,0 +1,406 @@
+import { App, Modal, Platform, Setting, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+import { StorageConfig, StorageProfile } from './types';
+
+/**
+ * Profile settings that are credentials. They are kept out of data.json, which is synced
+ * and sometimes committed together with the vault, unless secret storage is set to plaintext.
+ */
+export const SECRET_FIELDS = [
+	'gcsAccessToken',
+	'gcsServiceAccountKey',
+	's3AccessKeyId',
+	's3SecretAccessKey',
+	's3SessionToken',
+	'webdavPassword',
+	'webdavToken',
+	'customHeaders',  // Usually carries an Authorization or API key header
+	'azureSasToken',
+	'azureAccountKey',
+	'gitToken',
+] as const;
+
+type SecretField = typeof SECRET_FIELDS[number];
+
+/**
+ * Credentials of every profile, by profile id
+ */
+export type ProfileSecrets = Record<string, Partial<Record<SecretField, string>>>;
+
+/**
+ * Credentials encrypted with a key derived from the passphrase, stored in data.json so they sync
+ */
+export interface EncryptedSecrets {
+	salt: string;
+	iv: string;
+	data: string;
+}
+
+interface DeviceSecrets {
+	/** 'plain' was written by earlier versions without a keychain, it is encrypted when read */
+	encoding: 'safeStorage' | 'deviceKey' | 'plain';
+	data: string;
+	/** Set for 'deviceKey' */
+	iv?: string;
+}
+
+interface RememberedKey {
+	salt: string;
+	key: string;
+}
+
+interface SafeStorage {
+	isEncryptionAvailable(): boolean;
+	encryptString(plainText: string): { toString(encoding: 'base64'): string };
+	decryptString(encrypted: unknown): string;
+}
+
+const DEVICE_SECRETS_KEY = 'pasterly-secrets';
+const REMEMBERED_KEY_KEY = 'pasterly-passphrase-key';
+const DEVICE_KEY_KEY = 'pasterly-device-key';
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * Moves the credentials out of copies of the profiles
+ * @returns The profiles without credentials and the credentials that were removed
+ */
+export const splitSecrets = (profiles: StorageProfile[]): { profiles: StorageProfile[]; secrets: ProfileSecrets } => {
+	const secrets: ProfileSecrets = {};
+	const stripped = profiles.map((profile) => {
+		const copy = { ...profile };
+		SECRET_FIELDS.forEach((field) => {
+			if (copy[field]) {
+				secrets[profile.id] = { ...secrets[profile.id], [field]: copy[field] };
+				copy[field] = '';
+			}
+		});
+		return copy;
+	});
+	return { profiles: stripped, secrets };
+};
+
+/**
+ * Fills the credentials of profiles that have none set, so values still found in data.json win
+ */
+export const mergeSecrets = (profiles: StorageProfile[], secrets: ProfileSecrets) => {
+	profiles.forEach((profile) => {
+		const saved = secrets[profile.id] ?? {};
+		SECRET_FIELDS.forEach((field) => {
+			if (!profile[field] && saved[field]) {
+				profile[field] = saved[field] as string;
+			}
+		});
+	});
+};
+
+/**
+ * Whether any profile has a credential set
+ */
+export const hasSecrets = (profiles: StorageConfig[]): boolean => {
+	return profiles.some(profile => SECRET_FIELDS.some(field => profile[field]));
+};
+
+/**
+ * Electron's safeStorage encrypts with the OS keychain, it is only reachable on desktop
+ */
+const getSafeStorage = (): SafeStorage | null => {
+	if (!Platform.isDesktopApp) {
+		return null;
+	}
+	try {
+		const nodeRequire = (window as unknown as { require?: (id: string) => { remote?: { safeStorage?: SafeStorage } } }).require;
+		const safeStorage = nodeRequire?.('electron').remote?.safeStorage;
+		return safeStorage?.isEncryptionAvailable() ? safeStorage : null;
+	} catch (error) {
+		return null;
+	}
+};
+
+const deriveKey = async (passphrase: string, salt: ArrayBuffer): Promise<CryptoKey> => {
+	const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+	return crypto.subtle.deriveKey(
+		{ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+		material,
+		{ name: 'AES-GCM', length: 256 },
+		true,
+		['encrypt', 'decrypt']
+	);
+};
+
+/**
+ * Keeps credentials in this device's local storage, or encrypted with a passphrase.
+ * Local storage is per vault and per device and is not part of the vault folder, so it is never synced.
+ */
+export class SecretStore {
+	private passphraseKey: { salt: string; key: CryptoKey } | null = null;
+
+	constructor(private readonly app: App) {}
+
+	/**
+	 * Whether device storage is encrypted with the OS keychain on this device
+	 */
+	isDeviceEncryptionAvailable(): boolean {
+		return getSafeStorage() !== null;
+	}
+
+	async loadFromDevice(): Promise<ProfileSecrets> {
+		const saved = this.app.loadLocalStorage(DEVICE_SECRETS_KEY) as DeviceSecrets | null;
+		if (!saved) {
+			return {};
+		}
+		try {
+			if (saved.encoding === 'plain') {
+				const secrets: ProfileSecrets = JSON.parse(saved.data);
+				await this.saveToDevice(secrets);
+				return secrets;
+			}
+			if (saved.encoding === 'deviceKey') {
+				const key = await this.getDeviceKey(false);
+				if (!key || !saved.iv) {
+					throw new Error('The device key is missing');
+				}
+				const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToArrayBuffer(saved.iv) }, key, base64ToArrayBuffer(saved.data));
+				return JSON.parse(new TextDecoder().decode(data));
+			}
+			const safeStorage = getSafeStorage();
+			if (!safeStorage) {
+				throw new Error('OS keychain encryption is not available');
+			}
+			return JSON.parse(safeStorage.decryptString(Buffer.from(saved.data, 'base64')));
+		} catch (error) {
+			console.error('Failed to read credentials stored on this device:', error);
+			return {};
+		}
+	}
+
+	/**
+	 * Encrypts with the OS keychain, or with a random key kept in local storage where there is no keychain.
+	 * The device key does not protect against someone who can read local storage, but keeps the credentials out of plain view.
+	 */
+	async saveToDevice(secrets: ProfileSecrets) {
+		if (Object.keys(secrets).length === 0) {
+			this.clearDevice();
+			return;
+		}
+		const json = JSON.stringify(secrets);
+		const safeStorage = getSafeStorage();
+		if (safeStorage) {
+			this.app.saveLocalStorage(DEVICE_SECRETS_KEY, { encoding: 'safeStorage', data: safeStorage.encryptString(json).toString('base64') } as DeviceSecrets);
+			return;
+		}
+		const key = await this.getDeviceKey(true) as CryptoKey;
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(json));
+		this.app.saveLocalStorage(DEVICE_SECRETS_KEY, { encoding: 'deviceKey', iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data) } as DeviceSecrets);
+	}
+
+	/**
+	 * Loads the key that encrypts device storage without a keychain
+	 * @param create - Generate and store a key when there is none yet
+	 */
+	private async getDeviceKey(create: boolean): Promise<CryptoKey | null> {
+		const saved = this.app.loadLocalStorage(DEVICE_KEY_KEY) as string | null;
+		if (saved) {
+			return crypto.subtle.importKey('raw', base64ToArrayBuffer(saved), 'AES-GCM', true, ['encrypt', 'decrypt']);
+		}
+		if (!create) {
+			return null;
+		}
+		const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+		this.app.saveLocalStorage(DEVICE_KEY_KEY, arrayBufferToBase64(await crypto.subtle.exportKey('raw', key)));
+		return key;
+	}
+
+	clearDevice() {
+		this.app.saveLocalStorage(DEVICE_SECRETS_KEY, null);
+	}
+
+	/**
+	 * Whether a passphrase key is available, either entered this session or remembered on this device
+	 */
+	async hasPassphraseKey(): Promise<boolean> {
+		return (await this.getPassphraseKey()) !== null;
+	}
+
+	private async getPassphraseKey(): Promise<{ salt: string; key: CryptoKey } | null> {
+		if (this.passphraseKey) {
+			return this.passphraseKey;
+		}
+		const remembered = this.app.loadLocalStorage(REMEMBERED_KEY_KEY) as RememberedKey | null;
+		if (!remembered) {
+			return null;
+		}
+		try {
+			const key = await crypto.subtle.importKey('raw', base64ToArrayBuffer(remembered.key), 'AES-GCM', true, ['encrypt', 'decrypt']);
+			this.passphraseKey = { salt: remembered.salt, key };
+			return this.passphraseKey;
+		} catch (error) {
+			console.error('Failed to load the remembered passphrase key:', error);
+			return null;
+		}
+	}
+
+	private async rememberPassphraseKey(salt: string, key: CryptoKey) {
+		this.passphraseKey = { salt, key };
+		// The derived key, not the passphrase, so this device does not ask again
+		this.app.saveLocalStorage(REMEMBERED_KEY_KEY, { salt, key: arrayBufferToBase64(await crypto.subtle.exportKey('raw', key)) });
+	}
+
+	/**
+	 * Sets a new passphrase; credentials are encrypted with it on the next save
+	 */
+	async setPassphrase(passphrase: string) {
+		const salt = crypto.getRandomValues(new Uint8Array(16)).buffer;
+		await this.rememberPassphraseKey(arrayBufferToBase64(salt), await deriveKey(passphrase, salt));
+	}
+
+	/**
+	 * Decrypts credentials with a passphrase and remembers its key on this device
+	 * @returns The credentials, or null when the passphrase is wrong
+	 */
+	async unlock(encrypted: EncryptedSecrets, passphrase: string): Promise<ProfileSecrets | null> {
+		const key = await deriveKey(passphrase, base64ToArrayBuffer(encrypted.salt));
+		const secrets = await this.decryptWith(encrypted, key);
+		if (secrets) {
+			await this.rememberPassphraseKey(encrypted.salt, key);
+		}
+		return secrets;
+	}
+
+	/**
+	 * Decrypts credentials with the key remembered on this device
+	 * @returns The credentials, or null when no matching key is remembered
+	 */
+	async decrypt(encrypted: EncryptedSecrets): Promise<ProfileSecrets | null> {
+		const passphraseKey = await this.getPassphraseKey();
+		if (!passphraseKey || passphraseKey.salt !== encrypted.salt) {
+			return null;
+		}
+		return this.decryptWith(encrypted, passphraseKey.key);
+	}
+
+	private async decryptWith(encrypted: EncryptedSecrets, key: CryptoKey): Promise<ProfileSecrets | null> {
+		try {
+			const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: base64ToArrayBuffer(encrypted.iv) }, key, base64ToArrayBuffer(encrypted.data));
+			return JSON.parse(new TextDecoder().decode(data));
+		} catch (error) {
+			// AES-GCM fails authentication with a wrong key
+			return null;
+		}
+	}
+
+	/**
+	 * Encrypts credentials with the current passphrase key
+	 * @returns null when no passphrase was set or entered on this device
+	 */
+	async encrypt(secrets: ProfileSecrets): Promise<EncryptedSecrets | null> {
+		const passphraseKey = await this.getPassphraseKey();
+		if (!passphraseKey) {
+			return null;
+		}
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, passphraseKey.key, new TextEncoder().encode(JSON.stringify(secrets)));
+		return { salt: passphraseKey.salt, iv: arrayBufferToBase64(iv.buffer), data: arrayBufferToBase64(data) };
+	}
+
+	/**
+	 * Forgets the passphrase key on this device, the passphrase is asked for again on the next start.
+	 * The key stays in memory until then so saving settings keeps working.
+	 */
+	forgetPassphrase() {
+		this.app.saveLocalStorage(REMEMBERED_KEY_KEY, null);
+	}
+
+	/**
+	 * Drops the passphrase key from memory and this device, a new passphrase has to be set
+	 */
+	clearPassphrase() {
+		this.passphraseKey = null;
+		this.forgetPassphrase();
+	}
+}
+
+/**
+ * Asks for the passphrase that encrypts stored credentials
+ */
+export class PassphraseModal extends Modal {
+	private passphrase = '';
+	private confirmation = '';
+	private submitted = false;
+
+	constructor(
+		app: App,
+		private readonly options: {
+			title: string;
+			description: string;
+			/** Ask twice, when setting a new passphrase */
+			confirm: boolean;
+			/** Returns an error message to show, or null when the passphrase was accepted */
+			onSubmit: (passphrase: string) => Promise<string | null>;
+			onCancel?: () => void;
+		}
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, options } = this;
+		this.titleEl.setText(options.title);
+		contentEl.createEl('p', { text: options.description });
+
+		new Setting(contentEl)
+			.setName('Passphrase')
+			.addText((text) => {
+				text.inputEl.type = 'password';
+				text.onChange(value => this.passphrase = value);
+				text.inputEl.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter' && !options.confirm) {
+						this.submit(errorEl);
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+		if (options.confirm) {
+			new Setting(contentEl)
+				.setName('Repeat passphrase')
+				.addText((text) => {
+					text.inputEl.type = 'password';
+					text.onChange(value => this.confirmation = value);
+				});
+		}
+
+		const errorEl = contentEl.createEl('p', { cls: 'mod-warning' });
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText(options.confirm ? 'Set passphrase' : 'Unlock')
+				.setCta()
+				.onClick(() => this.submit(errorEl)));
+	}
+
+	private async submit(errorEl: HTMLElement) {
+		if (!this.passphrase) {
+			errorEl.setText('Enter a passphrase.');
+			return;
+		}
+		if (this.options.confirm && this.passphrase !== this.confirmation) {
+			errorEl.setText('The passphrases do not match.');
+			return;
+		}
+		const error = await this.options.onSubmit(this.passphrase);
+		if (error) {
+			errorEl.setText(error);
+			return;
+		}
+		this.submitted = true;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		if (!this.submitted) {
+			this.options.onCancel?.();
+		}
+	}
+}
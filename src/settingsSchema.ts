@@ -0,0 +1,231 @@
+import { DEFAULT_PROFILE_ID, DEFAULT_SETTINGS, DEFAULT_STORAGE_CONFIG, PasterlySettings, StorageConfig } from './types';
+import { LINK_TEMPLATE_PRESETS } from './linkTemplate';
+import { normalizeOptionalBaseUrl } from './baseUrl';
+
+/**
+ * Version of the settings layout written to data.json. Raise it together with a new migration.
+ */
+export const SETTINGS_VERSION = 4;
+
+/**
+ * Settings as saved, before migrations and defaults were applied
+ */
+export type SavedSettings = Record<string, unknown>;
+
+interface SettingsMigration {
+	/** Version the data has after this migration ran */
+	version: number;
+	/** Upgrades settings saved by the previous version in place */
+	migrate: (data: SavedSettings) => void;
+}
+
+const asRecords = (value: unknown): SavedSettings[] => {
+	return Array.isArray(value) ? value.filter((item): item is SavedSettings => typeof item === 'object' && item !== null) : [];
+};
+
+/**
+ * Ordered upgrades of saved settings. Settings saved before versioning have version 0 and run all of them,
+ * so every migration only changes data that still has the old layout.
+ */
+const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+	{
+		// Storage settings moved from the top level into a "Default" profile
+		version: 1,
+		migrate: (data) => {
+			if (!Array.isArray(data.profiles)) {
+				const profile: SavedSettings = { id: DEFAULT_PROFILE_ID, name: 'Default' };
+				Object.keys(data).forEach((key) => {
+					// gcsUseGcloudCli is converted by the next migration
+					if (key in DEFAULT_STORAGE_CONFIG || key === 'gcsUseGcloudCli') {
+						profile[key] = data[key];
+						delete data[key];
+					}
+				});
+				data.profiles = [profile];
+				data.defaultProfileId = DEFAULT_PROFILE_ID;
+			}
+
+			// Hashes recorded before profiles existed belong to the default profile
+			const hashes = data.uploadedHashes as SavedSettings | undefined;
+			if (hashes && typeof hashes === 'object') {
+				Object.keys(hashes).filter(indexKey => !indexKey.includes('/')).forEach((indexKey) => {
+					hashes[`${data.defaultProfileId ?? DEFAULT_PROFILE_ID}/${indexKey}`] = hashes[indexKey];
+					delete hashes[indexKey];
+				});
+			}
+		},
+	},
+	{
+		// The "Use gcloud CLI" toggle became the GCS authentication method
+		version: 2,
+		migrate: (data) => {
+			asRecords(data.profiles).forEach((profile) => {
+				if (profile.gcsUseGcloudCli === undefined) {
+					return;
+				}
+				if (!profile.gcsAuthType) {
+					profile.gcsAuthType = profile.gcsUseGcloudCli ? 'gcloud' : 'token';
+				}
+				delete profile.gcsUseGcloudCli;
+			});
+		},
+	},
+	{
+		// A fixed size used to produce ![300](url), which the width preset of the link template renders the same way
+		version: 3,
+		migrate: (data) => {
+			if (data.linkTemplate === undefined && typeof data.imageSize === 'number' && data.imageSize > 1) {
+				data.linkTemplate = LINK_TEMPLATE_PRESETS.markdownWidth.template;
+			}
+		},
+	},
+	{
+		// Base URLs are stored with a protocol and without a trailing slash
+		version: 4,
+		migrate: (data) => {
+			asRecords(data.profiles).forEach((profile) => {
+				['gcsCdnBaseUrl', 's3Endpoint', 's3PublicBaseUrl'].forEach((key) => {
+					if (typeof profile[key] === 'string') {
+						profile[key] = normalizeOptionalBaseUrl(profile[key] as string);
+					}
+				});
+			});
+		},
+	},
+];
+
+/**
+ * Brings saved settings up to the current version
+ * @param data - Settings as saved, changed in place
+ * @returns Whether any migration ran, so the upgraded settings should be saved
+ */
+export const migrateSettings = (data: SavedSettings): boolean => {
+	const version = typeof data.settingsVersion === 'number' ? data.settingsVersion : 0;
+	if (version > SETTINGS_VERSION) {
+		console.warn(`Pasterly settings were saved by a newer version (${version}), they are used as they are`);
+		return false;
+	}
+	const pending = SETTINGS_MIGRATIONS.filter(migration => migration.version > version);
+	pending.forEach(migration => migration.migrate(data));
+	data.settingsVersion = SETTINGS_VERSION;
+	return pending.length > 0;
+};
+
+/**
+ * Fills in settings added since the data was saved. Profiles and rules are copied
+ * so edits never mutate DEFAULT_SETTINGS.
+ */
+export const applySettingsDefaults = (saved: Partial<PasterlySettings>): PasterlySettings => {
+	const settings: PasterlySettings = { ...DEFAULT_SETTINGS, ...saved };
+	settings.profiles = settings.profiles.map(profile => ({ ...DEFAULT_STORAGE_CONFIG, ...profile }));
+	settings.routingRules = settings.routingRules.map(rule => ({ ...rule }));
+	settings.attachmentRules = settings.attachmentRules.map(rule => ({ ...rule }));
+	return settings;
+};
+
+// Allowed values of settings that hold one of a fixed set of strings
+const ENUM_VALUES: Record<string, string[]> = {
+	storageType: ['firebase', 'gcs', 's3', 'webdav', 'custom', 'azure', 'git'],
+	backupMode: ['failover', 'mirror'],
+	gcsAuthType: ['token', 'gcloud', 'serviceAccount'],
+	s3CredentialSource: ['settings', 'environment', 'sharedProfile'],
+	webdavAuthType: ['basic', 'bearer', 'none'],
+	customBodyType: ['multipart', 'raw'],
+	azureAuthType: ['sas', 'sharedKey'],
+	gitHost: ['github', 'gitea'],
+	gitUrlType: ['raw', 'jsdelivr', 'custom'],
+	secretStorage: ['device', 'passphrase', 'plaintext'],
+	imageOutputFormat: ['original', 'webp', 'jpeg', 'avif'],
+};
+
+/**
+ * Checks that each known setting has the type of its default and, for fixed sets of strings, an allowed value.
+ * Unknown settings are not reported.
+ */
+const validateValues = (values: SavedSettings, defaults: object, path: string, errors: string[]) => {
+	Object.keys(defaults).forEach((key) => {
+		const value = values[key];
+		const expected = (defaults as SavedSettings)[key];
+		if (value === undefined || Array.isArray(expected)) {
+			return;
+		}
+		if (typeof value !== typeof expected) {
+			errors.push(`${path}${key} must be a ${typeof expected}`);
+		} else if (ENUM_VALUES[key] && !ENUM_VALUES[key].includes(value as string)) {
+			errors.push(`${path}${key} must be one of ${ENUM_VALUES[key].join(', ')}`);
+		} else if (typeof value === 'number' && (isNaN(value) || value < 0)) {
+			errors.push(`${path}${key} must not be negative`);
+		}
+	});
+};
+
+/**
+ * Validates migrated settings, e.g. from an imported configuration file
+ * @returns One message per problem, empty when the settings are usable
+ */
+export const validateSettings = (data: SavedSettings): string[] => {
+	const errors: string[] = [];
+	validateValues(data, DEFAULT_SETTINGS, '', errors);
+
+	if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+		errors.push('profiles must be a list with at least one profile');
+		return errors;
+	}
+	const profiles = asRecords(data.profiles);
+	if (profiles.length !== data.profiles.length) {
+		errors.push('every profile must be an object');
+	}
+	const profileIds = new Set<string>();
+	profiles.forEach((profile, index) => {
+		const path = `profiles[${index}].`;
+		if (typeof profile.id !== 'string' || !profile.id) {
+			errors.push(`${path}id must be a non-empty string`);
+		} else if (profileIds.has(profile.id)) {
+			errors.push(`${path}id "${profile.id}" is used by another profile`);
+		} else {
+			profileIds.add(profile.id);
+		}
+		if (typeof profile.name !== 'string' || !profile.name.trim()) {
+			errors.push(`${path}name must be a non-empty string`);
+		}
+		validateValues(profile, DEFAULT_STORAGE_CONFIG as StorageConfig, path, errors);
+	});
+	profiles.forEach((profile, index) => {
+		if (profile.backupProfileId && !profileIds.has(profile.backupProfileId as string)) {
+			errors.push(`profiles[${index}].backupProfileId refers to a profile that does not exist`);
+		}
+	});
+
+	if (data.defaultProfileId !== undefined && !profileIds.has(data.defaultProfileId as string)) {
+		errors.push('defaultProfileId refers to a profile that does not exist');
+	}
+
+	if (data.routingRules !== undefined) {
+		if (!Array.isArray(data.routingRules)) {
+			errors.push('routingRules must be a list');
+		} else {
+			data.routingRules.forEach((rule: SavedSettings, index) => {
+				if (!rule || !['folder', 'tag', 'frontmatter'].includes(rule.type as string) || typeof rule.value !== 'string') {
+					errors.push(`routingRules[${index}] must have a type of folder, tag or frontmatter and a value`);
+				} else if (!profileIds.has(rule.profileId as string)) {
+					errors.push(`routingRules[${index}].profileId refers to a profile that does not exist`);
+				}
+			});
+		}
+	}
+
+	if (data.attachmentRules !== undefined) {
+		if (!Array.isArray(data.attachmentRules)) {
+			errors.push('attachmentRules must be a list');
+		} else {
+			data.attachmentRules.forEach((rule: SavedSettings, index) => {
+				if (!rule || typeof rule.mimeType !== 'string' || !['embed', 'link'].includes(rule.output as string)
+					|| typeof rule.maxSizeMB !== 'number' || rule.maxSizeMB < 0) {
+					errors.push(`attachmentRules[${index}] must have a mimeType, an output of embed or link and a maxSizeMB of 0 or more`);
+				}
+			});
+		}
+	}
+
+	return errors;
+};
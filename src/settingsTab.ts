@@ -0,0 +1,1378 @@
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
+import type Pasterly from './main';
+import { AzureAuthType, BackupMode, CustomHttpBodyType, DEFAULT_STORAGE_CONFIG, GCSAuthType, GitHostType, GitUrlType, RoutingRuleType, S3CredentialSource, SecretStorageMode, StorageProfile, StorageType, WebDAVAuthType } from './types';
+import { DEFAULT_OBJECT_KEY_TEMPLATE, isUniqueKeyTemplate } from './objectKey';
+import { ImageOutputFormat, canEncode } from './imageProcessing';
+import { PROFILE_FRONTMATTER_KEY, createProfile } from './profiles';
+import { ConnectionTestModal } from './connectionTest';
+import { AttachmentOutput } from './attachments';
+import { DEFAULT_LINK_TEMPLATE, LINK_TEMPLATE_PRESETS, LinkTemplatePreset, findLinkTemplatePreset } from './linkTemplate';
+import { PassphraseModal } from './secretStore';
+import { ConfirmModal } from './confirmModal';
+import { CONFIG_FILE_NAME } from './settingsTransfer';
+import { normalizeOptionalBaseUrl } from './baseUrl';
+
+/**
+ * Settings tab for the Pasterly plugin
+ */
+export class PasterlySettingTab extends PluginSettingTab {
+	private editingProfileId: string | null = null;
+	/** Not saved, credentials are only exported when asked for each time */
+	private includeCredentialsInExport = false;
+
+	constructor(app: App, private plugin: Pasterly) {
+		super(app, plugin);
+	}
+
+	display(): void {
+		const { containerEl } = this;
+		containerEl.empty();
+
+		this.displayProfiles(containerEl);
+		this.displaySecretStorage(containerEl);
+		this.displayRoutingRules(containerEl);
+
+		new Setting(containerEl).setName('Uploads').setHeading();
+
+		// Common Settings
+		const presets = Object.keys(LINK_TEMPLATE_PRESETS) as LinkTemplatePreset[];
+		new Setting(containerEl)
+			.setName('Link format')
+			.setDesc('Preset for the link inserted after an image is uploaded')
+			.addDropdown(dropdown => {
+				presets.forEach(preset => dropdown.addOption(preset, LINK_TEMPLATE_PRESETS[preset].name));
+				dropdown
+					.addOption('custom', 'Custom')
+					.setValue(findLinkTemplatePreset(this.plugin.settings.linkTemplate) ?? 'custom')
+					.onChange(async (value: LinkTemplatePreset | 'custom') => {
+						if (value === 'custom') return;
+						this.plugin.settings.linkTemplate = LINK_TEMPLATE_PRESETS[value].template;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh the template field
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Link template')
+			.setDesc('Variables: {url}, {alt}, {filename}, {width}, {height} (pixels), {size}, {ext}, {date:YYYY-MM-DD}')
+			.addTextArea(text => {
+				text
+					.setPlaceholder(DEFAULT_LINK_TEMPLATE)
+					.setValue(this.plugin.settings.linkTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.linkTemplate = value.trim() || DEFAULT_LINK_TEMPLATE;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 2;
+				text.inputEl.style.width = '100%';
+			});
+
+		new Setting(containerEl)
+			.setName('Ask for alt text')
+			.setDesc('Show a prompt for the {alt} text once an image you pasted or dropped is uploaded')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.promptForAltText)
+				.onChange(async (value) => {
+					this.plugin.settings.promptForAltText = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Fixed Size')
+			.setDesc('Display width used for {size} in the link template (0 for the image width)')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.imageSize.toString())
+					.onChange(async (value) => {
+						const num = Number(value);
+						if (isNaN(num)) return;
+						this.plugin.settings.imageSize = num;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		const keyTemplateSetting = new Setting(containerEl)
+			.setName('Object key template')
+			.addText(text => {
+				text
+					.setPlaceholder(DEFAULT_OBJECT_KEY_TEMPLATE)
+					.setValue(this.plugin.settings.objectKeyTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.objectKeyTemplate = value.trim() || DEFAULT_OBJECT_KEY_TEMPLATE;
+						await this.plugin.saveSettings();
+						updateKeyTemplateDesc();
+					});
+				text.inputEl.style.width = '100%';
+			});
+		const updateKeyTemplateDesc = () => {
+			const fragment = createFragment(el => {
+				el.appendText('Path of uploaded files inside the bucket. Variables: {vault}, {notePath}, {noteName}, {date:YYYY/MM/DD}, {hash}, {hash:8}, {originalName}, {ext}, {uuid}, {timestamp}, {random}');
+				if (!isUniqueKeyTemplate(this.plugin.settings.objectKeyTemplate)) {
+					el.createEl('br');
+					el.createSpan({
+						text: '⚠️ Without {hash}, {uuid}, {timestamp} or {random} uploads may overwrite each other.',
+						attr: { style: 'color: var(--text-warning)' },
+					});
+				}
+			});
+			keyTemplateSetting.setDesc(fragment);
+		};
+		updateKeyTemplateDesc();
+
+		new Setting(containerEl)
+			.setName('Reuse identical uploads')
+			.setDesc('Insert the existing link when the same image content was uploaded before instead of storing another copy. With {hash} in the key template, the bucket is also checked for the object.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.deduplicateUploads)
+				.onChange(async (value) => {
+					this.plugin.settings.deduplicateUploads = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Forget uploaded images')
+			.setDesc('Clear the local index of uploaded image hashes, so the next paste of any image is uploaded again')
+			.addButton(button => button
+				.setButtonText('Clear index')
+				.onClick(async () => {
+					await this.plugin.clearUploadedHashes();
+					new Notice('Upload index cleared');
+				}));
+
+		// Image Processing Settings
+		new Setting(containerEl)
+			.setName('Max image width')
+			.setDesc('Downscale wider images before upload, keeping the aspect ratio (0 for no limit)')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.imageMaxWidth.toString())
+					.onChange(async (value) => {
+						const num = Number(value);
+						if (isNaN(num) || num < 0) return;
+						this.plugin.settings.imageMaxWidth = num;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName('Max image height')
+			.setDesc('Downscale taller images before upload, keeping the aspect ratio (0 for no limit)')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.imageMaxHeight.toString())
+					.onChange(async (value) => {
+						const num = Number(value);
+						if (isNaN(num) || num < 0) return;
+						this.plugin.settings.imageMaxHeight = num;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		const formatLabels: Record<ImageOutputFormat, string> = {
+			original: 'Keep original format',
+			webp: 'WebP',
+			jpeg: 'JPEG',
+			avif: 'AVIF',
+		};
+		new Setting(containerEl)
+			.setName('Image format')
+			.setDesc('Convert images before upload. Formats this device cannot encode fall back to the original format.')
+			.addDropdown(dropdown => {
+				(Object.keys(formatLabels) as ImageOutputFormat[]).forEach((format) => {
+					const supported = format === 'original' || canEncode(`image/${format}`);
+					dropdown.addOption(format, supported ? formatLabels[format] : `${formatLabels[format]} (not supported on this device)`);
+				});
+				dropdown
+					.setValue(this.plugin.settings.imageOutputFormat)
+					.onChange(async (value: ImageOutputFormat) => {
+						this.plugin.settings.imageOutputFormat = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Image quality')
+			.setDesc('Quality used when re-encoding to JPEG, WebP or AVIF')
+			.addSlider(slider => slider
+				.setLimits(10, 100, 5)
+				.setValue(this.plugin.settings.imageQuality)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.imageQuality = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Strip image metadata')
+			.setDesc('Re-encode every image to remove EXIF data such as GPS location and camera details')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.stripImageMetadata)
+				.onChange(async (value) => {
+					this.plugin.settings.stripImageMetadata = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Trash local images after migrating')
+			.setDesc('When uploading existing local images, move each file to trash once no other note references it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.trashMigratedLocalImages)
+				.onChange(async (value) => {
+					this.plugin.settings.trashMigratedLocalImages = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// Reliability Settings
+		new Setting(containerEl)
+			.setName('Upload timeout')
+			.setDesc('Seconds an upload attempt may go without progress before it is given up and retried (0 for no limit). WebDAV, Azure, git, custom HTTP and small S3 or GCS uploads send the file in one request and only report progress at the end, so raise it for large files on those.')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.uploadTimeoutSeconds.toString())
+					.onChange(async (value) => {
+						const num = Number(value);
+						if (isNaN(num) || num < 0) return;
+						this.plugin.settings.uploadTimeoutSeconds = num;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		new Setting(containerEl)
+			.setName('Upload retries')
+			.setDesc('How often network errors, timeouts, rate limits and provider outages are retried, waiting longer each time. Wrong credentials or missing permissions are reported right away.')
+			.addText(text => {
+				text
+					.setValue(this.plugin.settings.uploadRetries.toString())
+					.onChange(async (value) => {
+						const num = Number(value);
+						if (isNaN(num) || num < 0 || !Number.isInteger(num)) return;
+						this.plugin.settings.uploadRetries = num;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.type = "number";
+			});
+
+		// Offline Queue Settings
+		new Setting(containerEl)
+			.setName('Queue offline and failed uploads')
+			.setDesc('Save images locally when offline or when an upload fails, and upload them automatically once the connection returns')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.queueFailedUploads)
+				.onChange(async (value) => {
+					this.plugin.settings.queueFailedUploads = value;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to show/hide queue options
+				}));
+
+		if (this.plugin.settings.queueFailedUploads) {
+			new Setting(containerEl)
+				.setName('Remove local copy after upload')
+				.setDesc('Move the locally saved image to trash once every embed was replaced with the uploaded link')
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.trashQueuedLocalCopies)
+					.onChange(async (value) => {
+						this.plugin.settings.trashQueuedLocalCopies = value;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		this.displayAttachmentRules(containerEl);
+		this.displayConfigTransfer(containerEl);
+	}
+
+	/**
+	 * Export and import of the whole configuration, to share provider settings with a team
+	 */
+	private displayConfigTransfer(containerEl: HTMLElement) {
+		new Setting(containerEl)
+			.setName('Configuration')
+			.setDesc(`Share your profiles and options through ${CONFIG_FILE_NAME}. Credentials are left out unless included below, so others only enter their own.`)
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Include credentials')
+			.setDesc('Also export access keys, tokens and passwords. They are written unencrypted, never share or commit such a file.')
+			.addToggle(toggle => toggle
+				.setValue(this.includeCredentialsInExport)
+				.onChange(value => this.includeCredentialsInExport = value));
+
+		new Setting(containerEl)
+			.setName('Export settings')
+			.setDesc(`Write the settings to ${CONFIG_FILE_NAME} in the vault root`)
+			.addButton(button => button
+				.setButtonText('Export')
+				.onClick(() => this.plugin.exportSettings(this.includeCredentialsInExport)));
+
+		new Setting(containerEl)
+			.setName('Import settings')
+			.setDesc('Replace all settings with an exported file. Credentials already entered on this device are kept for profiles that still upload to the same bucket, container or repository.')
+			.addButton(button => button
+				.setButtonText('Import')
+				.onClick(() => this.plugin.importSettings(() => this.display())));
+	}
+
+	/**
+	 * MIME type rules for uploading files other than images
+	 */
+	private displayAttachmentRules(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName('Attachments')
+			.setDesc('Pasted or dropped files matching a MIME type rule are uploaded too, the first matching rule wins. Files without a rule, or over its size limit, are attached locally by Obsidian. Large files are uploaded in parts on S3 and GCS.')
+			.setHeading();
+
+		const outputLabels: Record<AttachmentOutput, string> = {
+			embed: 'Embed',
+			link: 'Link',
+		};
+
+		settings.attachmentRules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(`Rule ${index + 1}`)
+				.setDesc('MIME types such as video/* or application/pdf, output, and size limit in MB (0 for no limit)')
+				.addText(text => text
+					.setPlaceholder('application/pdf')
+					.setValue(rule.mimeType)
+					.onChange(async (value) => {
+						rule.mimeType = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOptions(outputLabels)
+					.setValue(rule.output)
+					.onChange(async (value: AttachmentOutput) => {
+						rule.output = value;
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => {
+					text
+						.setValue(rule.maxSizeMB.toString())
+						.onChange(async (value) => {
+							const num = Number(value);
+							if (isNaN(num) || num < 0) return;
+							rule.maxSizeMB = num;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.type = 'number';
+					text.inputEl.style.width = '80px';
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						settings.attachmentRules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					settings.attachmentRules.push({ mimeType: '', output: 'link', maxSizeMB: 0 });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	/**
+	 * Where credentials of all profiles are kept
+	 */
+	private displaySecretStorage(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
+		const deviceDesc = this.plugin.isDeviceEncryptionAvailable()
+			? 'This device: credentials stay on this device, encrypted with the system keychain. Enter them again on every device.'
+			: 'This device: credentials stay on this device and are not synced. The system keychain is not available here, so they are encrypted with a key kept next to them in local storage, which only hides them from plain view. Use a passphrase for stronger protection. Enter them again on every device.';
+		const descriptions: Record<SecretStorageMode, string> = {
+			device: deviceDesc,
+			passphrase: 'Passphrase: credentials are encrypted with a passphrase and synced with data.json. Each device asks for the passphrase once.',
+			plaintext: 'Plaintext: credentials are saved unencrypted in data.json and synced or committed together with the vault.',
+		};
+
+		new Setting(containerEl)
+			.setName('Credential Storage')
+			.setDesc(this.plugin.secretsLocked
+				? 'Unlock the credentials before changing where they are stored.'
+				: descriptions[settings.secretStorage])
+			.addDropdown(dropdown => dropdown
+				.addOption('device', 'This device')
+				.addOption('passphrase', 'Passphrase')
+				.addOption('plaintext', 'Plaintext in data.json')
+				.setValue(settings.secretStorage)
+				.setDisabled(this.plugin.secretsLocked)
+				.onChange(async (value: SecretStorageMode) => {
+					if (value === 'passphrase' && !(await this.plugin.hasPassphrase())) {
+						this.openSetPassphrase(async () => {
+							settings.secretStorage = value;
+						});
+						return;
+					}
+					settings.secretStorage = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (settings.secretStorage !== 'passphrase') {
+			return;
+		}
+		if (this.plugin.secretsLocked) {
+			new Setting(containerEl)
+				.setName('Passphrase')
+				.setDesc('This device does not know the passphrase yet. Without the passphrase, the credentials can only be discarded.')
+				.addButton(button => button
+					.setButtonText('Discard credentials')
+					.setWarning()
+					.onClick(() => new ConfirmModal(this.app, {
+						title: 'Discard encrypted credentials',
+						message: 'The encrypted credentials of every profile are deleted, on every device once data.json syncs, and credential storage switches to this device. Enter the credentials again afterwards.',
+						confirmText: 'Discard',
+						onConfirm: async () => {
+							await this.plugin.discardEncryptedSecrets();
+							this.display();
+						},
+					}).open()))
+				.addButton(button => button
+					.setButtonText('Unlock')
+					.setCta()
+					.onClick(() => this.plugin.unlockSecrets()));
+			return;
+		}
+		new Setting(containerEl)
+			.setName('Passphrase')
+			.setDesc('Change the passphrase, or make this device ask for it again on the next start')
+			.addButton(button => button
+				.setButtonText('Change passphrase')
+				.onClick(() => this.openSetPassphrase(async () => {})))
+			.addButton(button => button
+				.setButtonText('Forget on this device')
+				.onClick(() => {
+					this.plugin.forgetPassphrase();
+					new Notice('The passphrase will be asked for on the next start');
+				}));
+	}
+
+	private openSetPassphrase(beforeSave: () => Promise<void>) {
+		new PassphraseModal(this.app, {
+			title: 'Set passphrase',
+			description: 'Credentials are encrypted with this passphrase. It cannot be recovered, so keep it somewhere safe.',
+			confirm: true,
+			onSubmit: async (passphrase) => {
+				await beforeSave();
+				await this.plugin.setPassphrase(passphrase);
+				this.display();
+				return null;
+			},
+			// Puts the dropdown back when the passphrase was not set
+			onCancel: () => this.display(),
+		}).open();
+	}
+
+	/**
+	 * Profile picker plus the provider settings of the selected profile
+	 */
+	private displayProfiles(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
+		const profile = settings.profiles.find(item => item.id === this.editingProfileId) ?? settings.profiles[0];
+		this.editingProfileId = profile.id;
+
+		new Setting(containerEl)
+			.setName('Storage profiles')
+			.setDesc('Each profile has its own provider and credentials. Routing rules below decide which profile a note uploads to.')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Profile')
+			.setDesc('Select the profile to edit')
+			.addDropdown(dropdown => {
+				settings.profiles.forEach((item) => {
+					dropdown.addOption(item.id, item.id === settings.defaultProfileId ? `${item.name} (default)` : item.name);
+				});
+				dropdown
+					.setValue(profile.id)
+					.onChange((value) => {
+						this.editingProfileId = value;
+						this.display();
+					});
+			})
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(async () => {
+					const newProfile = createProfile(`Profile ${settings.profiles.length + 1}`);
+					settings.profiles.push(newProfile);
+					this.editingProfileId = newProfile.id;
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addExtraButton(button => button
+				.setIcon('trash')
+				.setTooltip('Delete profile')
+				.setDisabled(settings.profiles.length <= 1)
+				.onClick(async () => {
+					if (settings.profiles.length <= 1) {
+						new Notice('At least one profile is required');
+						return;
+					}
+					settings.profiles = settings.profiles.filter(item => item.id !== profile.id);
+					settings.routingRules = settings.routingRules.filter(rule => rule.profileId !== profile.id);
+					settings.profiles
+						.filter(item => item.backupProfileId === profile.id)
+						.forEach(item => item.backupProfileId = '');
+					if (settings.defaultProfileId === profile.id) {
+						settings.defaultProfileId = settings.profiles[0].id;
+					}
+					this.editingProfileId = null;
+					await this.plugin.saveSettings();
+					this.plugin.debouncedInitializeStorage();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Profile Name')
+			.setDesc(`Shown in the rules below and usable in frontmatter as "${PROFILE_FRONTMATTER_KEY}: <name>"`)
+			.addText(text => text
+				.setValue(profile.name)
+				.onChange(async (value) => {
+					profile.name = value.trim() || profile.name;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Profile')
+			.setDesc('Used for notes that no routing rule matches')
+			.addToggle(toggle => toggle
+				.setValue(settings.defaultProfileId === profile.id)
+				.setDisabled(settings.defaultProfileId === profile.id)
+				.onChange(async (value) => {
+					if (!value) return;
+					settings.defaultProfileId = profile.id;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Private Mode')
+			.setDesc('Insert pasterly:// references instead of public URLs. Images are fetched with your credentials when a note is displayed, so the bucket can stay private. Not available for custom HTTP endpoints.')
+			.addToggle(toggle => toggle
+				.setValue(profile.privateMode)
+				.onChange(async (value) => {
+					profile.privateMode = value;
+					await this.plugin.saveSettings();
+					this.plugin.debouncedInitializeStorage();
+				}));
+
+		this.displayProviderSettings(containerEl, profile);
+
+		new Setting(containerEl)
+			.setName('Test Connection')
+			.setDesc('Uploads a tiny test image with the settings above, checks that it can be displayed and reports which step fails')
+			.addButton(button => button
+				.setButtonText('Test connection')
+				.onClick(() => new ConnectionTestModal(this.app, profile, settings.objectKeyTemplate).open()));
+
+		const backupCandidates = settings.profiles.filter(item => item.id !== profile.id);
+		if (backupCandidates.length > 0) {
+			new Setting(containerEl)
+				.setName('Backup Profile')
+				.setDesc('Another profile that keeps pasting working when this one fails, e.g. because credentials expired or the provider is down')
+				.addDropdown((dropdown) => {
+					dropdown.addOption('', 'None');
+					backupCandidates.forEach(item => dropdown.addOption(item.id, item.name));
+					dropdown
+						.setValue(backupCandidates.some(item => item.id === profile.backupProfileId) ? profile.backupProfileId : '')
+						.onChange(async (value) => {
+							profile.backupProfileId = value;
+							await this.plugin.saveSettings();
+							this.display(); // Refresh to show/hide the backup mode
+						});
+				});
+
+			if (profile.backupProfileId) {
+				new Setting(containerEl)
+					.setName('Backup Mode')
+					.setDesc('Failover uploads to the backup profile only when this profile fails. Mirror uploads every file to both and links the copy in this profile, so a second copy always exists.')
+					.addDropdown(dropdown => dropdown
+						.addOption('failover', 'Failover')
+						.addOption('mirror', 'Mirror')
+						.setValue(profile.backupMode)
+						.onChange(async (value: BackupMode) => {
+							profile.backupMode = value;
+							await this.plugin.saveSettings();
+						}));
+			}
+		}
+	}
+
+	/**
+	 * Provider-specific settings of a profile
+	 */
+	private displayProviderSettings(containerEl: HTMLElement, profile: StorageProfile) {
+		// Storage Type Selection
+		new Setting(containerEl)
+			.setName('Storage Provider')
+			.setDesc('Choose the storage backend of this profile')
+			.addDropdown(dropdown => dropdown
+				.addOption('firebase', 'Firebase Storage')
+				.addOption('gcs', 'Google Cloud Storage')
+				.addOption('s3', 'S3-compatible Storage (AWS S3 / R2)')
+				.addOption('azure', 'Azure Blob Storage')
+				.addOption('webdav', 'WebDAV (Nextcloud / ownCloud)')
+				.addOption('git', 'Git repository (GitHub / Gitea)')
+				.addOption('custom', 'Custom HTTP endpoint')
+				.setValue(profile.storageType)
+				.onChange(async (value: StorageType) => {
+					profile.storageType = value;
+					await this.plugin.saveSettings();
+					this.plugin.debouncedInitializeStorage();
+					this.display(); // Refresh to show/hide relevant settings
+				}));
+
+		// Firebase Settings
+		if (profile.storageType === 'firebase') {
+			new Setting(containerEl)
+				.setName('Firebase Storage Bucket URL')
+				.setDesc('URL of your Firebase Storage bucket (e.g., gs://your-bucket.appspot.com)')
+				.addText(text => text
+					.setPlaceholder('gs://your-bucket.appspot.com')
+					.setValue(profile.firebaseBucketUrl)
+					.onChange(async (value) => {
+						profile.firebaseBucketUrl = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+
+		// GCS Settings
+		if (profile.storageType === 'gcs') {
+			new Setting(containerEl)
+				.setName('GCS Bucket Name')
+				.setDesc('Name of your Google Cloud Storage bucket (without gs:// prefix)')
+				.addText(text => text
+					.setPlaceholder('my-bucket-name')
+					.setValue(profile.gcsBucketName)
+					.onChange(async (value) => {
+						profile.gcsBucketName = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Authentication Method')
+				.setDesc('Service account keys also work on mobile. Tokens from the service account and gcloud CLI are cached until shortly before they expire.')
+				.addDropdown(dropdown => dropdown
+					.addOption('serviceAccount', 'Service account key')
+					.addOption('gcloud', 'gcloud CLI (desktop only)')
+					.addOption('token', 'Access token')
+					.setValue(profile.gcsAuthType)
+					.onChange(async (value) => {
+						profile.gcsAuthType = value as GCSAuthType;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+						this.display(); // Refresh to show the fields of the selected method
+					}));
+
+			if (profile.gcsAuthType === 'serviceAccount') {
+				new Setting(containerEl)
+					.setName('Service Account Key')
+					.setDesc('Contents of the JSON key file of a service account with the Storage Object Admin role on the bucket')
+					.addTextArea(text => {
+						text
+							.setPlaceholder('{"type": "service_account", "client_email": "...", "private_key": "..."}')
+							.setValue(profile.gcsServiceAccountKey)
+							.onChange(async (value) => {
+								profile.gcsServiceAccountKey = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.rows = 5;
+						text.inputEl.style.width = '100%';
+					});
+			}
+
+			if (profile.gcsAuthType === 'gcloud') {
+				new Setting(containerEl)
+					.setName('gcloud Path')
+					.setDesc('Optional: full path to the gcloud binary. Leave empty to search common install locations and PATH.')
+					.addText(text => text
+						.setPlaceholder('/opt/homebrew/bin/gcloud')
+						.setValue(profile.gcsGcloudPath)
+						.onChange(async (value) => {
+							profile.gcsGcloudPath = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+			}
+
+			if (profile.gcsAuthType === 'token') {
+				new Setting(containerEl)
+					.setName('GCS Access Token')
+					.setDesc('OAuth2 access token (get via: gcloud auth print-access-token). Token expires after ~1 hour.')
+					.addTextArea(text => {
+						text
+							.setPlaceholder('ya29.a0...')
+							.setValue(profile.gcsAccessToken)
+							.onChange(async (value) => {
+								profile.gcsAccessToken = value;
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.rows = 3;
+						text.inputEl.style.width = '100%';
+					});
+
+				// Info notice about token expiration
+				const infoEl = containerEl.createEl('div', {
+					cls: 'setting-item-description',
+					text: '⚠️ Access tokens expire after ~1 hour. You will need to refresh the token periodically.'
+				});
+				infoEl.style.marginBottom = '1em';
+				infoEl.style.color = 'var(--text-warning)';
+			}
+
+			new Setting(containerEl)
+				.setName('CDN Base URL')
+				.setDesc('Optional: CDN URL to use instead of storage.googleapis.com (e.g., https://cdn.example.com)')
+				.addText(text => text
+					.setPlaceholder('https://cdn.example.com')
+					.setValue(profile.gcsCdnBaseUrl)
+					.onChange(async (value) => {
+						profile.gcsCdnBaseUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+
+		if (profile.storageType === 's3') {
+			new Setting(containerEl)
+				.setName('S3 Bucket Name')
+				.setDesc('Bucket name used to store uploaded images')
+				.addText(text => text
+					.setPlaceholder('my-bucket-name')
+					.setValue(profile.s3BucketName)
+					.onChange(async (value) => {
+						profile.s3BucketName = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('S3 Region')
+				.setDesc('AWS region or provider-specific region (for R2 use "auto")')
+				.addText(text => text
+					.setPlaceholder('us-east-1')
+					.setValue(profile.s3Region)
+					.onChange(async (value) => {
+						profile.s3Region = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('S3 Endpoint')
+				.setDesc('Optional for AWS S3. Required for S3-compatible providers such as Cloudflare R2 or MinIO.')
+				.addText(text => text
+					.setPlaceholder('https://<accountid>.r2.cloudflarestorage.com')
+					.setValue(profile.s3Endpoint)
+					.onChange(async (value) => {
+						profile.s3Endpoint = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			const credentialSourceLabels: Record<S3CredentialSource, string> = {
+				settings: 'Enter in settings',
+				environment: 'Environment variables',
+				sharedProfile: 'AWS credentials file profile',
+			};
+			new Setting(containerEl)
+				.setName('Credentials')
+				.setDesc('Environment variables (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN) and ~/.aws/credentials are read on desktop only and never saved by Pasterly')
+				.addDropdown(dropdown => {
+					(Object.keys(credentialSourceLabels) as S3CredentialSource[]).forEach(source => dropdown.addOption(source, credentialSourceLabels[source]));
+					dropdown
+						.setValue(profile.s3CredentialSource)
+						.onChange(async (value: S3CredentialSource) => {
+							profile.s3CredentialSource = value;
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+							this.display();
+						});
+				});
+
+			if (profile.s3CredentialSource === 'sharedProfile') {
+				new Setting(containerEl)
+					.setName('AWS Profile')
+					.setDesc('Profile name in ~/.aws/credentials (or AWS_SHARED_CREDENTIALS_FILE)')
+					.addText(text => text
+						.setPlaceholder('default')
+						.setValue(profile.s3AwsProfile)
+						.onChange(async (value) => {
+							profile.s3AwsProfile = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+			}
+
+			if (profile.s3CredentialSource === 'settings') {
+				new Setting(containerEl)
+					.setName('Access Key ID')
+					.setDesc('Access key with write permission to the target bucket')
+					.addText(text => text
+						.setPlaceholder('AKIA...')
+						.setValue(profile.s3AccessKeyId)
+						.onChange(async (value) => {
+							profile.s3AccessKeyId = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+
+				new Setting(containerEl)
+					.setName('Secret Access Key')
+					.setDesc('Secret key, kept according to the credential storage setting')
+					.addText(text => {
+						text
+							.setPlaceholder('••••••••')
+							.setValue(profile.s3SecretAccessKey)
+							.onChange(async (value) => {
+								profile.s3SecretAccessKey = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.type = 'password';
+					});
+
+				new Setting(containerEl)
+					.setName('Session Token')
+					.setDesc('Optional temporary session token for STS-style credentials')
+					.addTextArea(text => {
+						text
+							.setPlaceholder('IQoJb3JpZ2luX2Vj...')
+							.setValue(profile.s3SessionToken)
+							.onChange(async (value) => {
+								profile.s3SessionToken = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.rows = 2;
+						text.inputEl.style.width = '100%';
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Public Base URL')
+				.setDesc('Optional public URL used in markdown output. Recommended for R2 or CDN-backed buckets.')
+				.addText(text => text
+					.setPlaceholder('https://cdn.example.com')
+					.setValue(profile.s3PublicBaseUrl)
+					.onChange(async (value) => {
+						profile.s3PublicBaseUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Use path-style URLs')
+				.setDesc('Enable for providers requiring endpoint/bucket paths instead of bucket-prefixed hostnames')
+				.addToggle(toggle => toggle
+					.setValue(profile.s3ForcePathStyle)
+					.onChange(async (value) => {
+						profile.s3ForcePathStyle = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+
+		if (profile.storageType === 'azure') {
+			new Setting(containerEl)
+				.setName('Storage Account')
+				.setDesc('Name of your Azure storage account (use "devstoreaccount1" for Azurite)')
+				.addText(text => text
+					.setPlaceholder('mystorageaccount')
+					.setValue(profile.azureAccountName)
+					.onChange(async (value) => {
+						profile.azureAccountName = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Container')
+				.setDesc('Blob container used to store uploaded images')
+				.addText(text => text
+					.setPlaceholder('images')
+					.setValue(profile.azureContainer)
+					.onChange(async (value) => {
+						profile.azureContainer = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Authentication')
+				.setDesc('Use a SAS token with create/write permission, or sign requests with the account key')
+				.addDropdown(dropdown => dropdown
+					.addOption('sas', 'SAS token')
+					.addOption('sharedKey', 'Account key (SharedKey)')
+					.setValue(profile.azureAuthType)
+					.onChange(async (value: AzureAuthType) => {
+						profile.azureAuthType = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+						this.display(); // Refresh to show/hide credential fields
+					}));
+
+			if (profile.azureAuthType === 'sas') {
+				new Setting(containerEl)
+					.setName('SAS Token')
+					.setDesc('Shared access signature for the container or account, with or without the leading "?"')
+					.addTextArea(text => {
+						text
+							.setPlaceholder('sv=2022-11-02&ss=b&srt=co&sp=rwc&se=...&sig=...')
+							.setValue(profile.azureSasToken)
+							.onChange(async (value) => {
+								profile.azureSasToken = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.rows = 2;
+						text.inputEl.style.width = '100%';
+					});
+			} else {
+				new Setting(containerEl)
+					.setName('Account Key')
+					.setDesc('Storage account access key stored locally in the Obsidian plugin settings')
+					.addText(text => {
+						text
+							.setPlaceholder('••••••••')
+							.setValue(profile.azureAccountKey)
+							.onChange(async (value) => {
+								profile.azureAccountKey = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.type = 'password';
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Blob Endpoint')
+				.setDesc('Optional custom blob service URL, e.g. http://127.0.0.1:10000/devstoreaccount1 for Azurite. Defaults to https://<account>.blob.core.windows.net')
+				.addText(text => text
+					.setPlaceholder('https://mystorageaccount.blob.core.windows.net')
+					.setValue(profile.azureEndpoint)
+					.onChange(async (value) => {
+						profile.azureEndpoint = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('CDN Base URL')
+				.setDesc('Optional: CDN or custom domain URL used in markdown output instead of the blob URL')
+				.addText(text => text
+					.setPlaceholder('https://cdn.example.com')
+					.setValue(profile.azureCdnBaseUrl)
+					.onChange(async (value) => {
+						profile.azureCdnBaseUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+
+		if (profile.storageType === 'webdav') {
+			new Setting(containerEl)
+				.setName('WebDAV URL')
+				.setDesc('Collection URL uploads are stored under. Missing folders are created automatically.')
+				.addText(text => text
+					.setPlaceholder('https://cloud.example.com/remote.php/dav/files/me/pasterly')
+					.setValue(profile.webdavUrl)
+					.onChange(async (value) => {
+						profile.webdavUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Authentication')
+				.setDesc('How Pasterly authenticates against the WebDAV server')
+				.addDropdown(dropdown => dropdown
+					.addOption('basic', 'Username and password')
+					.addOption('bearer', 'Bearer token')
+					.addOption('none', 'None')
+					.setValue(profile.webdavAuthType)
+					.onChange(async (value: WebDAVAuthType) => {
+						profile.webdavAuthType = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+						this.display(); // Refresh to show/hide credential fields
+					}));
+
+			if (profile.webdavAuthType === 'basic') {
+				new Setting(containerEl)
+					.setName('Username')
+					.setDesc('WebDAV account name')
+					.addText(text => text
+						.setPlaceholder('me')
+						.setValue(profile.webdavUsername)
+						.onChange(async (value) => {
+							profile.webdavUsername = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+
+				new Setting(containerEl)
+					.setName('Password')
+					.setDesc('Password or app password (recommended for Nextcloud) stored locally in the Obsidian plugin settings')
+					.addText(text => {
+						text
+							.setPlaceholder('••••••••')
+							.setValue(profile.webdavPassword)
+							.onChange(async (value) => {
+								profile.webdavPassword = value;
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.type = 'password';
+					});
+			}
+
+			if (profile.webdavAuthType === 'bearer') {
+				new Setting(containerEl)
+					.setName('Token')
+					.setDesc('Bearer token stored locally in the Obsidian plugin settings')
+					.addText(text => {
+						text
+							.setPlaceholder('••••••••')
+							.setValue(profile.webdavToken)
+							.onChange(async (value) => {
+								profile.webdavToken = value.trim();
+								await this.plugin.saveSettings();
+								this.plugin.debouncedInitializeStorage();
+							});
+						text.inputEl.type = 'password';
+					});
+			}
+
+			new Setting(containerEl)
+				.setName('Public Base URL')
+				.setDesc('Optional public URL of the same folder used in markdown output, e.g. a public share or web server. Defaults to the WebDAV URL.')
+				.addText(text => text
+					.setPlaceholder('https://images.example.com')
+					.setValue(profile.webdavPublicBaseUrl)
+					.onChange(async (value) => {
+						profile.webdavPublicBaseUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+
+		if (profile.storageType === 'git') {
+			new Setting(containerEl)
+				.setName('Git Host')
+				.setDesc('Service hosting the repository')
+				.addDropdown(dropdown => dropdown
+					.addOption('github', 'GitHub')
+					.addOption('gitea', 'Gitea / Forgejo')
+					.setValue(profile.gitHost)
+					.onChange(async (value: GitHostType) => {
+						profile.gitHost = value;
+						if (value === 'gitea' && profile.gitUrlType === 'jsdelivr') {
+							profile.gitUrlType = 'raw';
+						}
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+						this.display(); // Refresh to show/hide host-specific fields
+					}));
+
+			new Setting(containerEl)
+				.setName(profile.gitHost === 'gitea' ? 'Server URL' : 'API URL')
+				.setDesc(profile.gitHost === 'gitea'
+					? 'URL of your Gitea or Forgejo server'
+					: 'Optional: API URL of GitHub Enterprise Server, e.g. https://github.example.com/api/v3. Defaults to github.com')
+				.addText(text => text
+					.setPlaceholder(profile.gitHost === 'gitea' ? 'https://gitea.example.com' : 'https://api.github.com')
+					.setValue(profile.gitApiUrl)
+					.onChange(async (value) => {
+						profile.gitApiUrl = normalizeOptionalBaseUrl(value);
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Repository')
+				.setDesc('Repository uploads are committed to, as owner/repo')
+				.addText(text => text
+					.setPlaceholder('me/images')
+					.setValue(profile.gitRepository)
+					.onChange(async (value) => {
+						profile.gitRepository = value.trim().replace(/^\/+|\/+$/g, '');
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Branch')
+				.setDesc('Branch uploads are committed to')
+				.addText(text => text
+					.setPlaceholder('main')
+					.setValue(profile.gitBranch)
+					.onChange(async (value) => {
+						profile.gitBranch = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Path Prefix')
+				.setDesc('Optional folder inside the repository the object key is appended to, e.g. "assets"')
+				.addText(text => text
+					.setPlaceholder('assets')
+					.setValue(profile.gitPathPrefix)
+					.onChange(async (value) => {
+						profile.gitPathPrefix = value.trim().replace(/^\/+|\/+$/g, '');
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Access Token')
+				.setDesc(profile.gitHost === 'gitea'
+					? 'Gitea access token with write:repository scope'
+					: 'Fine-grained personal access token with read and write access to the repository contents')
+				.addText(text => {
+					text
+						.setPlaceholder('••••••••')
+						.setValue(profile.gitToken)
+						.onChange(async (value) => {
+							profile.gitToken = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						});
+					text.inputEl.type = 'password';
+				});
+
+			new Setting(containerEl)
+				.setName('Commit Message')
+				.setDesc('Message of each upload commit. Supports {filename}, {key} (the path in the repository) and {date}')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_STORAGE_CONFIG.gitCommitMessage)
+					.setValue(profile.gitCommitMessage)
+					.onChange(async (value) => {
+						profile.gitCommitMessage = value || DEFAULT_STORAGE_CONFIG.gitCommitMessage;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Image URL')
+				.setDesc('URL written into notes. Raw URLs only work for public repositories; jsDelivr caches files on its CDN')
+				.addDropdown(dropdown => {
+					dropdown.addOption('raw', 'Raw file URL');
+					if (profile.gitHost === 'github') {
+						dropdown.addOption('jsdelivr', 'jsDelivr CDN');
+					}
+					dropdown
+						.addOption('custom', 'Pages / custom domain')
+						.setValue(profile.gitUrlType)
+						.onChange(async (value: GitUrlType) => {
+							profile.gitUrlType = value;
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+							this.display(); // Refresh to show/hide the custom base URL
+						});
+				});
+
+			if (profile.gitUrlType === 'custom') {
+				new Setting(containerEl)
+					.setName('Custom Base URL')
+					.setDesc('URL serving the repository root, e.g. a GitHub Pages site. The path prefix and object key are appended')
+					.addText(text => text
+						.setPlaceholder('https://me.github.io/images')
+						.setValue(profile.gitCustomBaseUrl)
+						.onChange(async (value) => {
+							profile.gitCustomBaseUrl = normalizeOptionalBaseUrl(value);
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+			}
+		}
+
+		if (profile.storageType === 'custom') {
+			new Setting(containerEl)
+				.setName('Upload URL')
+				.setDesc('Endpoint that receives the file. {key} and {filename} are replaced with the object key and file name.')
+				.addText(text => {
+					text
+						.setPlaceholder('https://api.imgur.com/3/image')
+						.setValue(profile.customUrl)
+						.onChange(async (value) => {
+							profile.customUrl = value.trim();
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						});
+					text.inputEl.style.width = '100%';
+				});
+
+			new Setting(containerEl)
+				.setName('HTTP Method')
+				.setDesc('Method used for the upload request')
+				.addDropdown(dropdown => dropdown
+					.addOption('POST', 'POST')
+					.addOption('PUT', 'PUT')
+					.setValue(profile.customMethod)
+					.onChange(async (value) => {
+						profile.customMethod = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Request Body')
+				.setDesc('Send the file as a multipart form field or as the raw request body')
+				.addDropdown(dropdown => dropdown
+					.addOption('multipart', 'Multipart form data')
+					.addOption('raw', 'Raw file content')
+					.setValue(profile.customBodyType)
+					.onChange(async (value: CustomHttpBodyType) => {
+						profile.customBodyType = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+						this.display(); // Refresh to show/hide the field name
+					}));
+
+			if (profile.customBodyType === 'multipart') {
+				new Setting(containerEl)
+					.setName('Form Field Name')
+					.setDesc('Name of the form field holding the file (e.g. "image" for Imgur, "source" for Chevereto)')
+					.addText(text => text
+						.setPlaceholder('file')
+						.setValue(profile.customFieldName)
+						.onChange(async (value) => {
+							profile.customFieldName = value.trim() || 'file';
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						}));
+			}
+
+			new Setting(containerEl)
+				.setName('Headers')
+				.setDesc('Extra request headers such as API keys, one "Name: Value" per line')
+				.addTextArea(text => {
+					text
+						.setPlaceholder('Authorization: Client-ID abc123\nX-API-Key: ...')
+						.setValue(profile.customHeaders)
+						.onChange(async (value) => {
+							profile.customHeaders = value;
+							await this.plugin.saveSettings();
+							this.plugin.debouncedInitializeStorage();
+						});
+					text.inputEl.rows = 3;
+					text.inputEl.style.width = '100%';
+				});
+
+			new Setting(containerEl)
+				.setName('Response URL Path')
+				.setDesc('JSON path to the image URL in the response, e.g. "data.link" (Imgur) or "image.url" (Chevereto)')
+				.addText(text => text
+					.setPlaceholder('data.link')
+					.setValue(profile.customResponseUrlPath)
+					.onChange(async (value) => {
+						profile.customResponseUrlPath = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+
+			new Setting(containerEl)
+				.setName('Response URL Regex')
+				.setDesc('Optional regular expression matched against the raw response when the JSON path finds nothing. The first capture group is used.')
+				.addText(text => text
+					.setPlaceholder('"url":"([^"]+)"')
+					.setValue(profile.customResponseUrlRegex)
+					.onChange(async (value) => {
+						try {
+							new RegExp(value);
+						} catch (error) {
+							new Notice('Invalid regular expression');
+							return;
+						}
+						profile.customResponseUrlRegex = value;
+						await this.plugin.saveSettings();
+						this.plugin.debouncedInitializeStorage();
+					}));
+		}
+	}
+
+	/**
+	 * Table of rules mapping folders, tags and frontmatter values to profiles
+	 */
+	private displayRoutingRules(containerEl: HTMLElement) {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName('Routing rules')
+			.setDesc(`Rules are checked in order and the first match wins. A "${PROFILE_FRONTMATTER_KEY}" frontmatter key always takes precedence; unmatched notes use the default profile.`)
+			.setHeading();
+
+		const typeLabels: Record<RoutingRuleType, string> = {
+			folder: 'Folder',
+			tag: 'Tag',
+			frontmatter: 'Frontmatter',
+		};
+		const placeholders: Record<RoutingRuleType, string> = {
+			folder: 'Work/Projects',
+			tag: 'team',
+			frontmatter: 'project: alpha',
+		};
+
+		settings.routingRules.forEach((rule, index) => {
+			new Setting(containerEl)
+				.setName(`Rule ${index + 1}`)
+				.addDropdown(dropdown => dropdown
+					.addOptions(typeLabels)
+					.setValue(rule.type)
+					.onChange(async (value: RoutingRuleType) => {
+						rule.type = value;
+						await this.plugin.saveSettings();
+						this.display(); // Refresh the value placeholder
+					}))
+				.addText(text => text
+					.setPlaceholder(placeholders[rule.type])
+					.setValue(rule.value)
+					.onChange(async (value) => {
+						rule.value = value;
+						await this.plugin.saveSettings();
+					}))
+				.addDropdown(dropdown => {
+					settings.profiles.forEach(profile => dropdown.addOption(profile.id, profile.name));
+					dropdown
+						.setValue(rule.profileId)
+						.onChange(async (value) => {
+							rule.profileId = value;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						settings.routingRules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					settings.routingRules.push({ type: 'folder', value: '', profileId: settings.defaultProfileId });
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+}
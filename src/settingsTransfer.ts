@@ -0,0 +1,125 @@
+import { DEFAULT_SETTINGS, DEFAULT_STORAGE_CONFIG, PasterlySettings } from './types';
+import { SECRET_FIELDS } from './secretStore';
+import { SETTINGS_VERSION, SavedSettings, applySettingsDefaults, migrateSettings, validateSettings } from './settingsSchema';
+
+/**
+ * File exported to the vault root, and the name teams share their configuration under
+ */
+export const CONFIG_FILE_NAME = 'pasterly.config.json';
+
+/**
+ * Content of an exported configuration file
+ */
+interface ConfigFile {
+	settingsVersion: number;
+	exportedAt: string;
+	credentialsIncluded: boolean;
+	settings: SavedSettings;
+}
+
+// Where credentials are kept is decided on each device, it is never exported
+const DEVICE_SETTINGS = ['secretStorage'];
+/**
+ * Profile settings that belong to this device: the gcloud path names a program Pasterly runs,
+ * so it is never exported and never taken from a shared file
+ */
+export const DEVICE_PROFILE_SETTINGS = ['gcsGcloudPath'] as const;
+
+/**
+ * Serializes the settings for sharing
+ * @param includeCredentials - Keep access keys, tokens and passwords instead of leaving them empty
+ */
+export const buildConfigFile = (settings: PasterlySettings, includeCredentials: boolean): string => {
+	const exported: SavedSettings = { ...settings };
+	DEVICE_SETTINGS.forEach(key => delete exported[key]);
+	exported.profiles = settings.profiles.map((profile) => {
+		const copy: SavedSettings = { ...profile };
+		DEVICE_PROFILE_SETTINGS.forEach(key => delete copy[key]);
+		if (!includeCredentials) {
+			SECRET_FIELDS.forEach(field => copy[field] = '');
+		}
+		return copy;
+	});
+
+	const file: ConfigFile = {
+		settingsVersion: SETTINGS_VERSION,
+		exportedAt: new Date().toISOString(),
+		credentialsIncluded: includeCredentials,
+		settings: exported,
+	};
+	return JSON.stringify(file, null, '\t');
+};
+
+/**
+ * Keeps only settings this version knows, so a hand-edited file cannot add arbitrary keys
+ */
+const pickKnownSettings = (data: SavedSettings): Partial<PasterlySettings> => {
+	const known: SavedSettings = {};
+	Object.keys(DEFAULT_SETTINGS)
+		.filter(key => !DEVICE_SETTINGS.includes(key) && data[key] !== undefined)
+		.forEach(key => known[key] = data[key]);
+	known.profiles = (data.profiles as SavedSettings[]).map((profile) => {
+		const knownProfile: SavedSettings = { id: profile.id, name: (profile.name as string).trim() };
+		Object.keys(DEFAULT_STORAGE_CONFIG)
+			.filter(key => !(DEVICE_PROFILE_SETTINGS as readonly string[]).includes(key) && profile[key] !== undefined)
+			.forEach(key => knownProfile[key] = profile[key]);
+		return knownProfile;
+	});
+	return known as Partial<PasterlySettings>;
+};
+
+/**
+ * Reads an exported configuration file, upgrading settings exported by older versions
+ * @throws Error listing every problem when the file cannot be used
+ */
+export const parseConfigFile = (text: string): PasterlySettings => {
+	let file: Partial<ConfigFile>;
+	try {
+		file = JSON.parse(text);
+	} catch (error) {
+		throw new Error('The file is not valid JSON');
+	}
+	if (!file || typeof file.settings !== 'object' || file.settings === null || typeof file.settingsVersion !== 'number') {
+		throw new Error('The file is not a Pasterly configuration, it has no settings and settingsVersion');
+	}
+	if (file.settingsVersion > SETTINGS_VERSION) {
+		throw new Error(`The file was exported by a newer version of Pasterly (settings version ${file.settingsVersion}). Update Pasterly first.`);
+	}
+
+	const data: SavedSettings = { ...file.settings, settingsVersion: file.settingsVersion };
+	migrateSettings(data);
+	const errors = validateSettings(data);
+	if (errors.length > 0) {
+		throw new Error(`The configuration is not valid:\n${errors.join('\n')}`);
+	}
+	const settings = applySettingsDefaults(pickKnownSettings(data));
+	if (!settings.profiles.some(profile => profile.id === settings.defaultProfileId)) {
+		settings.defaultProfileId = settings.profiles[0].id;
+	}
+	return settings;
+};
+
+/**
+ * Lets the user pick a JSON file, from the vault or anywhere else
+ * @returns The file content, or null when nothing was picked
+ */
+export const pickConfigFile = (): Promise<string | null> => {
+	return new Promise((resolve) => {
+		const input = document.createElement('input');
+		input.type = 'file';
+		input.accept = '.json,application/json';
+		input.addEventListener('change', () => {
+			const file = input.files?.[0];
+			resolve(file ? file.text() : null);
+		});
+		input.addEventListener('cancel', () => resolve(null));
+		// Not every Electron version fires cancel. The window gets focus back when the dialog closes,
+		// and change follows shortly after when a file was chosen.
+		window.addEventListener('focus', () => window.setTimeout(() => {
+			if (!input.files?.length) {
+				resolve(null);
+			}
+		}, 500), { once: true });
+		input.click();
+	});
+};
@@ -1,8 +1,25 @@
 import { initializeApp, getApp, FirebaseApp } from 'firebase/app';
-import { getStorage, ref, uploadBytes, getDownloadURL, FirebaseStorage as FBStorage } from "firebase/storage";
-import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
-import { requestUrl } from 'obsidian';
-import { StorageProvider } from './types';
+import { getStorage, ref, uploadBytesResumable, getDownloadURL, getBlob, deleteObject, FirebaseStorage as FBStorage, StorageError } from "firebase/storage";
+import {
+    AbortMultipartUploadCommand,
+    CompleteMultipartUploadCommand,
+    CompletedPart,
+    CreateMultipartUploadCommand,
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+    PutObjectCommand,
+    S3Client,
+    UploadPartCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { RequestUrlParam, RequestUrlResponse, arrayBufferToBase64, moment, requestUrl } from 'obsidian';
+import { AzureAuthType, CustomHttpBodyType, GCSAuthType, GitHostType, GitUrlType, S3CredentialSource, StorageProvider, StorageType, StoredObject, UploadOptions, WebDAVAuthType } from './types';
+import { encodeKeyForUrl } from './objectKey';
+import { UploadCancelledError, UploadError, cancellable, createHttpError, throwIfCancelled, toUploadError } from './errors';
+import { AccessToken, ServiceAccountSigner, getGcloudAccessToken, parseServiceAccountKey } from './gcsAuth';
+import { createAwsCredentialProvider } from './awsCredentials';
 
 const normalizeOptionalBaseUrl = (value: string | null): string | null => {
     if (!value) {
@@ -21,6 +38,20 @@ const normalizeOptionalBaseUrl = (value: string | null): string | null => {
     return withProtocol.replace(/\/+$/, '');
 };
 
+// Lifetime of presigned URLs handed out for private objects
+const SIGNED_URL_EXPIRY_SECONDS = 60 * 60;
+
+/**
+ * Wraps downloaded object content in an object URL so a private image can be displayed
+ */
+const toObjectUrl = (response: { status: number; arrayBuffer: ArrayBuffer; headers: Record<string, string> }): string => {
+    if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Download failed with status ${response.status}`);
+    }
+    const contentType = response.headers['content-type'] || response.headers['Content-Type'] || '';
+    return URL.createObjectURL(new Blob([response.arrayBuffer], { type: contentType }));
+};
+
 /**
  * Firebase Storage Provider
  * Handles file uploads to Firebase Storage with a specified bucket
@@ -43,65 +74,60 @@ export class FirebaseStorageProvider implements StorageProvider {
         this.storage = getStorage(this.app, bucketUrl);
     }
 
-    private generateUniqueFileName(originalName: string): string {
-        const timestamp = new Date().getTime();
-        const randomString = Math.random().toString(36).substring(2, 8);
-        const extension = originalName.split('.').pop();
-        return `image_${timestamp}_${randomString}.${extension}`;
-    }
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        const imageRef = ref(this.storage, key);
+        throwIfCancelled(options.signal);
 
-    public async uploadImage(file: File): Promise<string> {
-        const fileName = this.generateUniqueFileName(file.name);
-        const imageRef = ref(this.storage, `pasterly/${fileName}`);
+        return new Promise<string>((resolve, reject) => {
+            const task = uploadBytesResumable(imageRef, file);
+            const cancel = () => task.cancel();
+            options.signal?.addEventListener('abort', cancel);
 
-        return uploadBytes(imageRef, file)
-            .then((snapshot) => getDownloadURL(snapshot.ref))
-            .catch(() => Promise.reject('Failed to upload image. Please check your Firebase Storage settings.'));
+            task.on(
+                'state_changed',
+                (snapshot) => options.onProgress?.(snapshot.bytesTransferred, snapshot.totalBytes),
+                (error) => {
+                    options.signal?.removeEventListener('abort', cancel);
+                    reject(error.code === 'storage/canceled'
+                        ? new UploadCancelledError()
+                        : toUploadError(error, 'Firebase Storage'));
+                },
+                () => {
+                    options.signal?.removeEventListener('abort', cancel);
+                    resolve(getDownloadURL(task.snapshot.ref));
+                }
+            );
+        });
     }
-}
 
-/**
- * Gets access token from gcloud CLI
- * Executes: gcloud auth print-access-token
- * Tries multiple common paths since GUI apps may not have the same PATH as terminal
- */
-export async function getAccessTokenFromGcloud(): Promise<string> {
-    const { exec } = require('child_process');
-
-    // Common paths for gcloud on different systems
-    const gcloudPaths = [
-        '/opt/homebrew/bin/gcloud',           // macOS Apple Silicon (Homebrew)
-        '/usr/local/bin/gcloud',               // macOS Intel (Homebrew)
-        '/usr/bin/gcloud',                     // Linux system
-        '/snap/bin/gcloud',                    // Linux snap
-        'gcloud'                               // Fallback to PATH
-    ];
-
-    return new Promise((resolve, reject) => {
-        const tryGcloudPath = (index: number) => {
-            if (index >= gcloudPaths.length) {
-                reject(new Error('gcloud CLI not found. Please install Google Cloud SDK.'));
-                return;
+    public async getExistingUrl(key: string): Promise<string | null> {
+        try {
+            return await getDownloadURL(ref(this.storage, key));
+        } catch (error) {
+            if (error instanceof StorageError && error.code === 'storage/object-not-found') {
+                return null;
             }
+            throw error;
+        }
+    }
 
-            const gcloudPath = gcloudPaths[index];
-            exec(`${gcloudPath} auth print-access-token`, (error: Error | null, stdout: string, stderr: string) => {
-                if (error) {
-                    // Try next path
-                    tryGcloudPath(index + 1);
-                    return;
-                }
-                const token = stdout.trim();
-                if (!token) {
-                    reject(new Error('Empty access token returned from gcloud CLI'));
-                    return;
-                }
-                resolve(token);
-            });
-        };
+    public async deleteImage(key: string): Promise<void> {
+        try {
+            await deleteObject(ref(this.storage, key));
+        } catch (error) {
+            // Already gone counts as deleted
+            if (error instanceof StorageError && error.code === 'storage/object-not-found') {
+                return;
+            }
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to delete from Firebase Storage: ${message}. Check that your bucket rules allow deletes.`);
+        }
+    }
 
-        tryGcloudPath(0);
-    });
+    public async getPrivateUrl(key: string): Promise<string> {
+        // Download URLs carry a long-lived token, so private images are downloaded under the bucket rules instead
+        return URL.createObjectURL(await getBlob(ref(this.storage, key)));
+    }
 }
 
 /**
@@ -109,30 +135,43 @@ export async function getAccessTokenFromGcloud(): Promise<string> {
  * Handles file uploads to GCS using OAuth2 Access Token authentication
  */
 export class GCSStorageProvider implements StorageProvider {
+    private static readonly RESUMABLE_THRESHOLD = 5 * 1024 * 1024;
+    private static readonly CHUNK_SIZE = 8 * 1024 * 1024; // Must be a multiple of 256 KiB
+    // Refresh cached tokens this long before they expire
+    private static readonly TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
     private readonly bucketName: string;
+    private readonly authType: GCSAuthType;
     private readonly accessToken: string | null;
+    private readonly gcloudPath: string;
+    private readonly signer: ServiceAccountSigner | null;
     private readonly cdnBaseUrl: string | null;
-    private readonly useGcloudCli: boolean;
+    private cachedToken: AccessToken | null = null;
+    private tokenRequest: Promise<AccessToken> | null = null;
 
     /**
-     * Initializes GCS Storage with bucket name and auth config
-     * @param bucketName - The GCS bucket name (without gs:// prefix)
-     * @param accessToken - OAuth2 access token (optional if using gcloud CLI)
-     * @param cdnBaseUrl - CDN base URL for returned image URLs (optional)
-     * @param useGcloudCli - Whether to use gcloud CLI for auto-auth
+     * @param config.bucketName - The GCS bucket name (without gs:// prefix)
+     * @param config.accessToken - OAuth2 access token, used with the 'token' auth type
+     * @param config.serviceAccountKey - Service account key JSON, used with the 'serviceAccount' auth type
+     * @param config.gcloudPath - gcloud binary to run instead of searching common paths (optional)
+     * @param config.cdnBaseUrl - CDN base URL for returned image URLs (optional)
      */
-    constructor(bucketName: string, accessToken: string | null, cdnBaseUrl: string | null = null, useGcloudCli: boolean = false) {
-        this.bucketName = bucketName;
-        this.accessToken = accessToken;
-        this.cdnBaseUrl = normalizeOptionalBaseUrl(cdnBaseUrl);
-        this.useGcloudCli = useGcloudCli;
-    }
-
-    private generateUniqueFileName(originalName: string): string {
-        const timestamp = new Date().getTime();
-        const randomString = Math.random().toString(36).substring(2, 8);
-        const extension = originalName.split('.').pop() || 'png';
-        return `image_${timestamp}_${randomString}.${extension}`;
+    constructor(config: {
+        bucketName: string;
+        authType: GCSAuthType;
+        accessToken?: string | null;
+        serviceAccountKey?: string;
+        gcloudPath?: string;
+        cdnBaseUrl?: string | null;
+    }) {
+        this.bucketName = config.bucketName;
+        this.authType = config.authType;
+        this.accessToken = config.accessToken || null;
+        this.gcloudPath = config.gcloudPath || '';
+        this.signer = config.authType === 'serviceAccount'
+            ? new ServiceAccountSigner(parseServiceAccountKey(config.serviceAccountKey || ''))
+            : null;
+        this.cdnBaseUrl = normalizeOptionalBaseUrl(config.cdnBaseUrl || null);
     }
 
     /**
@@ -148,51 +187,193 @@ export class GCSStorageProvider implements StorageProvider {
     }
 
     /**
-     * Gets the access token - either from stored value or gcloud CLI
+     * Gets the access token - the stored value, or a cached token from the service account or gcloud CLI
      */
     private async getToken(): Promise<string> {
-        if (this.useGcloudCli) {
-            return getAccessTokenFromGcloud();
+        if (this.authType === 'token') {
+            if (!this.accessToken) {
+                throw new UploadError('auth', 'No access token provided');
+            }
+            return this.accessToken;
+        }
+
+        if (this.cachedToken && this.cachedToken.expiresAt - GCSStorageProvider.TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+            return this.cachedToken.token;
+        }
+        // Concurrent uploads share one token request
+        if (!this.tokenRequest) {
+            this.tokenRequest = (this.signer ? this.signer.getAccessToken() : getGcloudAccessToken(this.gcloudPath))
+                .then((token) => {
+                    this.cachedToken = token;
+                    return token;
+                })
+                .finally(() => this.tokenRequest = null);
+        }
+        return (await this.tokenRequest).token;
+    }
+
+    /**
+     * Sends a request to the GCS API with the current access token.
+     * A rejected cached token is dropped and the request retried once with a fresh one.
+     */
+    private async authorizedRequest(request: RequestUrlParam): Promise<RequestUrlResponse> {
+        const send = async () => requestUrl({
+            ...request,
+            headers: { ...request.headers, 'Authorization': `Bearer ${await this.getToken()}` },
+            throw: false,
+        });
+        const response = await send();
+        if (response.status === 401 && this.cachedToken) {
+            this.cachedToken = null;
+            return send();
+        }
+        return response;
+    }
+
+    private buildPublicUrl(objectPath: string): string {
+        // Return CDN URL if configured, otherwise GCS public URL
+        if (this.cdnBaseUrl) {
+            return `${this.cdnBaseUrl}/${encodeKeyForUrl(objectPath)}`;
+        }
+        return `https://storage.googleapis.com/${this.bucketName}/${encodeKeyForUrl(objectPath)}`;
+    }
+
+    public async getExistingUrl(key: string): Promise<string | null> {
+        const response = await this.authorizedRequest({
+            url: `https://storage.googleapis.com/storage/v1/b/${encodeURIComponent(this.bucketName)}/o/${encodeURIComponent(key)}`,
+            method: 'GET',
+        });
+        if (response.status === 404) {
+            return null;
+        }
+        if (response.status >= 200 && response.status < 300) {
+            return this.buildPublicUrl(key);
+        }
+        throw new Error(`GCS metadata lookup failed with status ${response.status}`);
+    }
+
+    public async deleteImage(key: string): Promise<void> {
+        const response = await this.authorizedRequest({
+            url: `https://storage.googleapis.com/storage/v1/b/${encodeURIComponent(this.bucketName)}/o/${encodeURIComponent(key)}`,
+            method: 'DELETE',
+        });
+        // 404 means the object is already gone
+        if (response.status !== 404 && (response.status < 200 || response.status >= 300)) {
+            throw new Error(`Failed to delete from GCS: status ${response.status}. Check that your credentials allow deleting objects.`);
+        }
+    }
+
+    public async getPrivateUrl(key: string): Promise<string> {
+        // A service account can sign URLs, other credentials have to download the image
+        if (this.signer) {
+            return this.signer.getSignedUrl(`/${encodeURIComponent(this.bucketName)}/${encodeKeyForUrl(key)}`, SIGNED_URL_EXPIRY_SECONDS);
+        }
+        return toObjectUrl(await this.authorizedRequest({
+            url: `https://storage.googleapis.com/storage/v1/b/${encodeURIComponent(this.bucketName)}/o/${encodeURIComponent(key)}?alt=media`,
+            method: 'GET',
+        }));
+    }
+
+    public async listObjects(prefix: string): Promise<StoredObject[]> {
+        const objects: StoredObject[] = [];
+        let pageToken = '';
+        do {
+            const response = await this.authorizedRequest({
+                url: `https://storage.googleapis.com/storage/v1/b/${encodeURIComponent(this.bucketName)}/o?prefix=${encodeURIComponent(prefix)}` +
+                    `&fields=${encodeURIComponent('items(name,size),nextPageToken')}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`,
+                method: 'GET',
+            });
+            if (response.status < 200 || response.status >= 300) {
+                throw new Error(`Failed to list GCS objects: status ${response.status}. Check that your credentials allow listing the bucket.`);
+            }
+            const page = response.json as { items?: { name: string; size: string }[]; nextPageToken?: string };
+            (page.items ?? []).forEach(item => objects.push({ key: item.name, size: Number(item.size) || 0 }));
+            pageToken = page.nextPageToken ?? '';
+        } while (pageToken);
+        return objects;
+    }
+
+    /**
+     * Uploads large files in chunks through a resumable session so progress can be reported
+     * and the file never has to be read into memory at once
+     */
+    private async uploadResumable(file: File, objectPath: string, options: UploadOptions) {
+        const session = await cancellable(this.authorizedRequest({
+            url: `https://storage.googleapis.com/upload/storage/v1/b/${encodeURIComponent(this.bucketName)}/o?uploadType=resumable&name=${encodeURIComponent(objectPath)}`,
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json; charset=UTF-8',
+                'X-Upload-Content-Type': file.type || 'application/octet-stream',
+                'X-Upload-Content-Length': file.size.toString(),
+            },
+            body: '{}',
+        }), options.signal);
+        const sessionUrl = session.headers['location'] || session.headers['Location'];
+        if (session.status < 200 || session.status >= 300 || !sessionUrl) {
+            throw createHttpError(session.status, session.headers, 'starting resumable upload');
         }
-        if (!this.accessToken) {
-            throw new Error('No access token provided and gcloud CLI is disabled');
+
+        try {
+            for (let start = 0; start < file.size; start += GCSStorageProvider.CHUNK_SIZE) {
+                throwIfCancelled(options.signal);
+                const end = Math.min(start + GCSStorageProvider.CHUNK_SIZE, file.size);
+                const response = await cancellable(requestUrl({
+                    url: sessionUrl,
+                    method: 'PUT',
+                    headers: { 'Content-Range': `bytes ${start}-${end - 1}/${file.size}` },
+                    body: await file.slice(start, end).arrayBuffer(),
+                    throw: false,
+                }), options.signal);
+                // 308 Resume Incomplete acknowledges an intermediate chunk
+                if (response.status !== 308 && (response.status < 200 || response.status >= 300)) {
+                    throw createHttpError(response.status, response.headers);
+                }
+                options.onProgress?.(end, file.size);
+            }
+        } catch (error) {
+            // Release the session so the partial upload does not linger
+            await requestUrl({ url: sessionUrl, method: 'DELETE', throw: false }).catch(() => undefined);
+            throw error;
         }
-        return this.accessToken;
     }
 
-    public async uploadImage(file: File): Promise<string> {
-        const fileName = this.generateUniqueFileName(file.name);
-        const objectPath = `pasterly/${fileName}`;
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        const objectPath = key;
 
         // GCS JSON API upload endpoint
         const uploadUrl = `https://storage.googleapis.com/upload/storage/v1/b/${encodeURIComponent(this.bucketName)}/o?uploadType=media&name=${encodeURIComponent(objectPath)}`;
 
         try {
-            const token = await this.getToken();
+            throwIfCancelled(options.signal);
+
+            if (file.size > GCSStorageProvider.RESUMABLE_THRESHOLD) {
+                await this.uploadResumable(file, objectPath, options);
+                return this.buildPublicUrl(objectPath);
+            }
+
             const arrayBuffer = await this.fileToArrayBuffer(file);
+            throwIfCancelled(options.signal);
 
-            const response = await requestUrl({
+            const response = await cancellable(this.authorizedRequest({
                 url: uploadUrl,
                 method: 'POST',
                 headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'Content-Type': file.type || 'image/png',
+                    'Content-Type': file.type || 'application/octet-stream',
                 },
                 body: arrayBuffer,
-            });
+            }), options.signal);
 
             if (response.status >= 200 && response.status < 300) {
-                // Return CDN URL if configured, otherwise GCS public URL
-                if (this.cdnBaseUrl) {
-                    return `${this.cdnBaseUrl}/${objectPath}`;
-                }
-                return `https://storage.googleapis.com/${this.bucketName}/${objectPath}`;
+                options.onProgress?.(file.size, file.size);
+                return this.buildPublicUrl(objectPath);
             } else {
-                throw new Error(`Upload failed with status ${response.status}`);
+                throw createHttpError(response.status, response.headers);
             }
         } catch (error) {
-            const message = error instanceof Error ? error.message : 'Unknown error';
-            throw new Error(`Failed to upload to GCS: ${message}. Check your access token and bucket permissions.`);
+            if (error instanceof UploadCancelledError) {
+                throw error;
+            }
+            throw toUploadError(error, 'GCS');
         }
     }
 }
@@ -202,6 +383,9 @@ export class GCSStorageProvider implements StorageProvider {
  * Supports AWS S3 and providers exposing an S3-compatible API such as Cloudflare R2.
  */
 export class S3CompatibleStorageProvider implements StorageProvider {
+    private static readonly MULTIPART_THRESHOLD = 8 * 1024 * 1024;
+    private static readonly PART_SIZE = 8 * 1024 * 1024; // S3 requires at least 5 MiB per part
+
     private readonly bucketName: string;
     private readonly region: string;
     private readonly endpoint: string | null;
@@ -213,8 +397,10 @@ export class S3CompatibleStorageProvider implements StorageProvider {
         bucketName: string;
         region: string;
         endpoint?: string | null;
-        accessKeyId: string;
-        secretAccessKey: string;
+        credentialSource?: S3CredentialSource;
+        awsProfile?: string;
+        accessKeyId?: string;
+        secretAccessKey?: string;
         sessionToken?: string | null;
         publicBaseUrl?: string | null;
         forcePathStyle?: boolean;
@@ -228,21 +414,16 @@ export class S3CompatibleStorageProvider implements StorageProvider {
             region: config.region,
             endpoint: this.endpoint || undefined,
             forcePathStyle: this.forcePathStyle,
-            credentials: {
-                accessKeyId: config.accessKeyId,
-                secretAccessKey: config.secretAccessKey,
-                sessionToken: config.sessionToken || undefined,
-            },
+            credentials: config.credentialSource && config.credentialSource !== 'settings'
+                ? createAwsCredentialProvider(config.credentialSource, config.awsProfile || '')
+                : {
+                    accessKeyId: config.accessKeyId || '',
+                    secretAccessKey: config.secretAccessKey || '',
+                    sessionToken: config.sessionToken || undefined,
+                },
         });
     }
 
-    private generateUniqueFileName(originalName: string): string {
-        const timestamp = new Date().getTime();
-        const randomString = Math.random().toString(36).substring(2, 8);
-        const extension = originalName.split('.').pop() || 'png';
-        return `image_${timestamp}_${randomString}.${extension}`;
-    }
-
     private async fileToArrayBuffer(file: File): Promise<ArrayBuffer> {
         return new Promise((resolve, reject) => {
             const reader = new FileReader();
@@ -276,24 +457,787 @@ export class S3CompatibleStorageProvider implements StorageProvider {
         return `https://${this.bucketName}.s3.${this.region}.amazonaws.com/${objectPath}`;
     }
 
-    public async uploadImage(file: File): Promise<string> {
-        const fileName = this.generateUniqueFileName(file.name);
-        const objectPath = `pasterly/${fileName}`;
+    public async getExistingUrl(key: string): Promise<string | null> {
+        try {
+            await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucketName,
+                Key: key,
+            }));
+            return this.buildPublicUrl(encodeKeyForUrl(key));
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey')) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    public async deleteImage(key: string): Promise<void> {
+        try {
+            // S3 reports success for keys that do not exist
+            await this.client.send(new DeleteObjectCommand({
+                Bucket: this.bucketName,
+                Key: key,
+            }));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to delete from S3-compatible storage: ${message}. Check that your credentials allow s3:DeleteObject.`);
+        }
+    }
+
+    public async getPrivateUrl(key: string): Promise<string> {
+        return getSignedUrl(this.client, new GetObjectCommand({
+            Bucket: this.bucketName,
+            Key: key,
+        }), { expiresIn: SIGNED_URL_EXPIRY_SECONDS });
+    }
+
+    public async listObjects(prefix: string): Promise<StoredObject[]> {
+        const objects: StoredObject[] = [];
+        let continuationToken: string | undefined;
+        try {
+            do {
+                const page = await this.client.send(new ListObjectsV2Command({
+                    Bucket: this.bucketName,
+                    Prefix: prefix,
+                    ContinuationToken: continuationToken,
+                }));
+                (page.Contents ?? []).forEach((item) => {
+                    if (item.Key) {
+                        objects.push({ key: item.Key, size: item.Size ?? 0 });
+                    }
+                });
+                continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+            } while (continuationToken);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            throw new Error(`Failed to list S3-compatible storage: ${message}. Check that your credentials allow s3:ListBucket.`);
+        }
+        return objects;
+    }
+
+    /**
+     * Uploads large files part by part so progress can be reported
+     * and the file never has to be read into memory at once
+     */
+    private async uploadMultipart(file: File, objectPath: string, options: UploadOptions) {
+        const { UploadId } = await this.client.send(new CreateMultipartUploadCommand({
+            Bucket: this.bucketName,
+            Key: objectPath,
+            ContentType: file.type || 'application/octet-stream',
+        }), { abortSignal: options.signal });
 
         try {
+            const parts: CompletedPart[] = [];
+            for (let start = 0, partNumber = 1; start < file.size; start += S3CompatibleStorageProvider.PART_SIZE, partNumber++) {
+                throwIfCancelled(options.signal);
+                const end = Math.min(start + S3CompatibleStorageProvider.PART_SIZE, file.size);
+                const { ETag } = await this.client.send(new UploadPartCommand({
+                    Bucket: this.bucketName,
+                    Key: objectPath,
+                    UploadId,
+                    PartNumber: partNumber,
+                    Body: new Uint8Array(await file.slice(start, end).arrayBuffer()),
+                }), { abortSignal: options.signal });
+                parts.push({ ETag, PartNumber: partNumber });
+                options.onProgress?.(end, file.size);
+            }
+
+            await this.client.send(new CompleteMultipartUploadCommand({
+                Bucket: this.bucketName,
+                Key: objectPath,
+                UploadId,
+                MultipartUpload: { Parts: parts },
+            }));
+        } catch (error) {
+            // Remove the uploaded parts so they are not billed as incomplete uploads
+            await this.client.send(new AbortMultipartUploadCommand({
+                Bucket: this.bucketName,
+                Key: objectPath,
+                UploadId,
+            })).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        const objectPath = key;
+
+        try {
+            throwIfCancelled(options.signal);
+
+            if (file.size > S3CompatibleStorageProvider.MULTIPART_THRESHOLD) {
+                await this.uploadMultipart(file, objectPath, options);
+                return this.buildPublicUrl(encodeKeyForUrl(objectPath));
+            }
+
             const arrayBuffer = await this.fileToArrayBuffer(file);
 
             await this.client.send(new PutObjectCommand({
                 Bucket: this.bucketName,
                 Key: objectPath,
                 Body: new Uint8Array(arrayBuffer),
-                ContentType: file.type || 'image/png',
-            }));
+                ContentType: file.type || 'application/octet-stream',
+            }), { abortSignal: options.signal });
 
-            return this.buildPublicUrl(objectPath);
+            options.onProgress?.(file.size, file.size);
+            return this.buildPublicUrl(encodeKeyForUrl(objectPath));
+        } catch (error) {
+            if (options.signal?.aborted) {
+                throw new UploadCancelledError();
+            }
+            throw toUploadError(error, 'S3-compatible storage');
+        }
+    }
+}
+
+/**
+ * WebDAV Storage Provider
+ * Uploads with PUT to any WebDAV server such as Nextcloud, ownCloud or Apache mod_dav,
+ * creating missing collections with MKCOL.
+ */
+export class WebDAVStorageProvider implements StorageProvider {
+    private readonly url: string;
+    private readonly authType: WebDAVAuthType;
+    private readonly username: string;
+    private readonly password: string;
+    private readonly token: string;
+    private readonly publicBaseUrl: string | null;
+
+    /**
+     * @param config.url - Collection URL uploads are stored under (e.g. https://cloud.example.com/remote.php/dav/files/me/pasterly)
+     * @param config.publicBaseUrl - Public URL of the same collection used in markdown links (optional)
+     */
+    constructor(config: {
+        url: string;
+        authType: WebDAVAuthType;
+        username?: string;
+        password?: string;
+        token?: string;
+        publicBaseUrl?: string | null;
+    }) {
+        this.url = normalizeOptionalBaseUrl(config.url) || config.url;
+        this.authType = config.authType;
+        this.username = config.username || '';
+        this.password = config.password || '';
+        this.token = config.token || '';
+        this.publicBaseUrl = normalizeOptionalBaseUrl(config.publicBaseUrl || null);
+    }
+
+    private getAuthHeaders(): Record<string, string> {
+        if (this.authType === 'basic') {
+            const credentials = new TextEncoder().encode(`${this.username}:${this.password}`);
+            return { 'Authorization': `Basic ${arrayBufferToBase64(credentials.buffer)}` };
+        }
+        if (this.authType === 'bearer') {
+            return { 'Authorization': `Bearer ${this.token}` };
+        }
+        return {};
+    }
+
+    private buildPublicUrl(objectPath: string): string {
+        return `${this.publicBaseUrl || this.url}/${encodeKeyForUrl(objectPath)}`;
+    }
+
+    /**
+     * Creates every missing parent collection of the object path, outermost first
+     */
+    private async ensureCollections(objectPath: string) {
+        const segments = objectPath.split('/').slice(0, -1);
+        for (let index = 1; index <= segments.length; index++) {
+            const response = await requestUrl({
+                url: `${this.url}/${encodeKeyForUrl(segments.slice(0, index).join('/'))}`,
+                method: 'MKCOL',
+                headers: this.getAuthHeaders(),
+                throw: false,
+            });
+            // 405 Method Not Allowed means the collection already exists
+            if (response.status !== 201 && response.status !== 405 && !(response.status >= 200 && response.status < 300)) {
+                throw createHttpError(response.status, response.headers, `creating collection "${segments.slice(0, index).join('/')}"`);
+            }
+        }
+    }
+
+    private async put(objectPath: string, file: File, body: ArrayBuffer) {
+        return requestUrl({
+            url: `${this.url}/${encodeKeyForUrl(objectPath)}`,
+            method: 'PUT',
+            headers: {
+                ...this.getAuthHeaders(),
+                'Content-Type': file.type || 'application/octet-stream',
+            },
+            body,
+            throw: false,
+        });
+    }
+
+    public async getExistingUrl(key: string): Promise<string | null> {
+        const response = await requestUrl({
+            url: `${this.url}/${encodeKeyForUrl(key)}`,
+            method: 'HEAD',
+            headers: this.getAuthHeaders(),
+            throw: false,
+        });
+        if (response.status === 404) {
+            return null;
+        }
+        if (response.status >= 200 && response.status < 300) {
+            return this.buildPublicUrl(key);
+        }
+        throw new Error(`WebDAV lookup failed with status ${response.status}`);
+    }
+
+    public async getPrivateUrl(key: string): Promise<string> {
+        return toObjectUrl(await requestUrl({
+            url: `${this.url}/${encodeKeyForUrl(key)}`,
+            method: 'GET',
+            headers: this.getAuthHeaders(),
+            throw: false,
+        }));
+    }
+
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        try {
+            throwIfCancelled(options.signal);
+            const arrayBuffer = await file.arrayBuffer();
+            let response = await cancellable(this.put(key, file, arrayBuffer), options.signal);
+
+            // 409 Conflict (or 404 on some servers) means a parent collection is missing
+            if (response.status === 409 || response.status === 404) {
+                await cancellable(this.ensureCollections(key), options.signal);
+                response = await cancellable(this.put(key, file, arrayBuffer), options.signal);
+            }
+
+            if (response.status >= 200 && response.status < 300) {
+                options.onProgress?.(file.size, file.size);
+                return this.buildPublicUrl(key);
+            }
+            throw createHttpError(response.status, response.headers);
+        } catch (error) {
+            if (error instanceof UploadCancelledError) {
+                throw error;
+            }
+            throw toUploadError(error, 'WebDAV');
+        }
+    }
+}
+
+/**
+ * Parses one `Name: Value` header per line, ignoring blank lines and `#` comments
+ */
+export const parseHeaderLines = (value: string): Record<string, string> => {
+    const headers: Record<string, string> = {};
+    value.split('\n').forEach((line) => {
+        const trimmedLine = line.trim();
+        const separatorIndex = trimmedLine.indexOf(':');
+        if (!trimmedLine || trimmedLine.startsWith('#') || separatorIndex <= 0) {
+            return;
+        }
+        headers[trimmedLine.substring(0, separatorIndex).trim()] = trimmedLine.substring(separatorIndex + 1).trim();
+    });
+    return headers;
+};
+
+/**
+ * Reads a value from a parsed JSON response with a path such as `data.link` or `data.images[0].url`
+ */
+const getValueAtPath = (value: unknown, path: string): unknown => {
+    return path
+        .replace(/\[(\d+)\]/g, '.$1')
+        .split('.')
+        .filter(Boolean)
+        .reduce<unknown>((current, segment) => {
+            if (current === null || typeof current !== 'object') {
+                return undefined;
+            }
+            return (current as Record<string, unknown>)[segment];
+        }, value);
+};
+
+/**
+ * Custom HTTP Storage Provider
+ * Uploads to any HTTP endpoint (internal services, Imgur, PicGo-Server, Chevereto, ...)
+ * and extracts the image URL from the response with a JSON path or a regular expression.
+ */
+export class CustomHttpStorageProvider implements StorageProvider {
+    private readonly url: string;
+    private readonly method: string;
+    private readonly bodyType: CustomHttpBodyType;
+    private readonly fieldName: string;
+    private readonly headers: Record<string, string>;
+    private readonly responseUrlPath: string;
+    private readonly responseUrlRegex: RegExp | null;
+
+    /**
+     * @param config.url - Upload endpoint; `{key}` and `{filename}` are replaced with the object key and file name
+     * @param config.responseUrlPath - JSON path to the image URL in the response (e.g. data.link)
+     * @param config.responseUrlRegex - Regular expression matched against the raw response; the first capture group (or the whole match) is used
+     */
+    constructor(config: {
+        url: string;
+        method: string;
+        bodyType: CustomHttpBodyType;
+        fieldName?: string;
+        headers?: string;
+        responseUrlPath?: string;
+        responseUrlRegex?: string;
+    }) {
+        this.url = config.url.trim();
+        this.method = config.method || 'POST';
+        this.bodyType = config.bodyType;
+        this.fieldName = config.fieldName || 'file';
+        this.headers = parseHeaderLines(config.headers || '');
+        this.responseUrlPath = (config.responseUrlPath || '').trim();
+        this.responseUrlRegex = config.responseUrlRegex ? new RegExp(config.responseUrlRegex) : null;
+    }
+
+    private async buildMultipartBody(file: File, fileName: string): Promise<{ body: ArrayBuffer; contentType: string }> {
+        const boundary = `----PasterlyBoundary${Math.random().toString(36).substring(2)}`;
+        const encoder = new TextEncoder();
+        const head = encoder.encode(
+            `--${boundary}\r\n` +
+            `Content-Disposition: form-data; name="${this.fieldName}"; filename="${fileName.replace(/"/g, '')}"\r\n` +
+            `Content-Type: ${file.type || 'application/octet-stream'}\r\n\r\n`
+        );
+        const content = new Uint8Array(await file.arrayBuffer());
+        const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+
+        const body = new Uint8Array(head.length + content.length + tail.length);
+        body.set(head, 0);
+        body.set(content, head.length);
+        body.set(tail, head.length + content.length);
+        return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+    }
+
+    private extractUrl(text: string): string {
+        if (this.responseUrlPath) {
+            try {
+                const value = getValueAtPath(JSON.parse(text), this.responseUrlPath);
+                if (typeof value === 'string' && value) {
+                    return value;
+                }
+            } catch (error) {
+                // Not JSON, fall through to the regular expression
+            }
+        }
+
+        if (this.responseUrlRegex) {
+            const match = text.match(this.responseUrlRegex);
+            if (match) {
+                return match[1] || match[0];
+            }
+        }
+
+        if (!this.responseUrlPath && !this.responseUrlRegex && /^https?:\/\/\S+$/.test(text.trim())) {
+            // Plain-text responses containing only the URL need no mapping
+            return text.trim();
+        }
+
+        throw new Error(`Could not find the image URL in the response: ${text.substring(0, 200)}`);
+    }
+
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        const fileName = key.split('/').pop() || file.name;
+        const url = this.url
+            .replace(/\{key\}/g, encodeKeyForUrl(key))
+            .replace(/\{filename\}/g, encodeURIComponent(fileName));
+
+        try {
+            const { body, contentType } = this.bodyType === 'multipart'
+                ? await this.buildMultipartBody(file, fileName)
+                : { body: await file.arrayBuffer(), contentType: file.type || 'application/octet-stream' };
+            throwIfCancelled(options.signal);
+
+            const response = await cancellable(requestUrl({
+                url,
+                method: this.method,
+                headers: {
+                    'Content-Type': contentType,
+                    ...this.headers,
+                },
+                body,
+                throw: false,
+            }), options.signal);
+
+            if (response.status < 200 || response.status >= 300) {
+                throw createHttpError(response.status, response.headers, response.text.substring(0, 200));
+            }
+            options.onProgress?.(file.size, file.size);
+            return this.extractUrl(response.text);
+        } catch (error) {
+            if (error instanceof UploadCancelledError) {
+                throw error;
+            }
+            throw toUploadError(error, 'custom HTTP endpoint');
+        }
+    }
+}
+
+/**
+ * Azure Blob Storage Provider
+ * Uploads with Put Blob, authenticated by a SAS token or by SharedKey signing with the account key.
+ * Works against the Azurite emulator through a custom endpoint.
+ */
+export class AzureBlobStorageProvider implements StorageProvider {
+    private static readonly API_VERSION = '2021-08-06';
+
+    private readonly accountName: string;
+    private readonly container: string;
+    private readonly authType: AzureAuthType;
+    private readonly sasToken: string;
+    private readonly accountKey: string;
+    private readonly endpoint: string;
+    private readonly cdnBaseUrl: string | null;
+
+    /**
+     * @param config.endpoint - Blob service URL, defaults to https://<account>.blob.core.windows.net
+     *                          (e.g. http://127.0.0.1:10000/devstoreaccount1 for Azurite)
+     * @param config.cdnBaseUrl - CDN or custom domain used in returned image URLs (optional)
+     */
+    constructor(config: {
+        accountName: string;
+        container: string;
+        authType: AzureAuthType;
+        sasToken?: string;
+        accountKey?: string;
+        endpoint?: string | null;
+        cdnBaseUrl?: string | null;
+    }) {
+        this.accountName = config.accountName;
+        this.container = config.container;
+        this.authType = config.authType;
+        this.sasToken = (config.sasToken || '').trim().replace(/^\?/, '');
+        this.accountKey = (config.accountKey || '').trim();
+        this.endpoint = normalizeOptionalBaseUrl(config.endpoint || null) || `https://${config.accountName}.blob.core.windows.net`;
+        this.cdnBaseUrl = normalizeOptionalBaseUrl(config.cdnBaseUrl || null);
+    }
+
+    private getBlobUrl(key: string): string {
+        return `${this.endpoint}/${this.container}/${encodeKeyForUrl(key)}`;
+    }
+
+    private buildPublicUrl(key: string): string {
+        if (this.cdnBaseUrl) {
+            return `${this.cdnBaseUrl}/${encodeKeyForUrl(key)}`;
+        }
+        return this.getBlobUrl(key);
+    }
+
+    /**
+     * Computes the SharedKey Authorization header
+     * @see https://learn.microsoft.com/rest/api/storageservices/authorize-with-shared-key
+     */
+    private async signRequest(method: string, url: URL, headers: Record<string, string>, contentLength: number): Promise<string> {
+        const canonicalizedHeaders = Object.keys(headers)
+            .filter(name => name.toLowerCase().startsWith('x-ms-'))
+            .map(name => `${name.toLowerCase()}:${headers[name].trim()}`)
+            .sort()
+            .map(line => `${line}\n`)
+            .join('');
+
+        const queryNames = Array.from(new Set(Array.from(url.searchParams.keys()).map(name => name.toLowerCase()))).sort();
+        const canonicalizedResource = `/${this.accountName}${url.pathname}` + queryNames
+            .map(name => `\n${name}:${url.searchParams.getAll(name).sort().join(',')}`)
+            .join('');
+
+        const stringToSign = [
+            method,
+            headers['Content-Encoding'] || '',
+            headers['Content-Language'] || '',
+            contentLength > 0 ? contentLength.toString() : '',
+            headers['Content-MD5'] || '',
+            headers['Content-Type'] || '',
+            '', // Date, replaced by x-ms-date
+            '', // If-Modified-Since
+            '', // If-Match
+            '', // If-None-Match
+            '', // If-Unmodified-Since
+            '', // Range
+        ].join('\n') + '\n' + canonicalizedHeaders + canonicalizedResource;
+
+        const keyBytes = Uint8Array.from(atob(this.accountKey), char => char.charCodeAt(0));
+        const cryptoKey = await crypto.subtle.importKey('raw', keyBytes, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+        const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(stringToSign));
+        return `SharedKey ${this.accountName}:${arrayBufferToBase64(signature)}`;
+    }
+
+    private async send(method: string, key: string, headers: Record<string, string> = {}, body?: ArrayBuffer) {
+        const url = new URL(this.getBlobUrl(key));
+        const requestHeaders: Record<string, string> = {
+            ...headers,
+            'x-ms-date': new Date().toUTCString(),
+            'x-ms-version': AzureBlobStorageProvider.API_VERSION,
+        };
+
+        if (this.authType === 'sas') {
+            url.search = this.sasToken;
+        } else {
+            requestHeaders['Authorization'] = await this.signRequest(method, url, requestHeaders, body ? body.byteLength : 0);
+        }
+
+        return requestUrl({
+            url: url.toString(),
+            method,
+            headers: requestHeaders,
+            body,
+            throw: false,
+        });
+    }
+
+    public async getExistingUrl(key: string): Promise<string | null> {
+        const response = await this.send('HEAD', key);
+        if (response.status === 404) {
+            return null;
+        }
+        if (response.status >= 200 && response.status < 300) {
+            return this.buildPublicUrl(key);
+        }
+        throw new Error(`Azure blob lookup failed with status ${response.status}`);
+    }
+
+    public async getPrivateUrl(key: string): Promise<string> {
+        return toObjectUrl(await this.send('GET', key));
+    }
+
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        const contentType = file.type || 'application/octet-stream';
+
+        try {
+            throwIfCancelled(options.signal);
+            const response = await cancellable(this.send('PUT', key, {
+                'Content-Type': contentType,
+                'x-ms-blob-type': 'BlockBlob',
+                'x-ms-blob-content-type': contentType,
+            }, await file.arrayBuffer()), options.signal);
+
+            if (response.status >= 200 && response.status < 300) {
+                options.onProgress?.(file.size, file.size);
+                return this.buildPublicUrl(key);
+            }
+            throw createHttpError(response.status, response.headers, response.headers['x-ms-error-code']);
+        } catch (error) {
+            if (error instanceof UploadCancelledError) {
+                throw error;
+            }
+            throw toUploadError(error, 'Azure Blob Storage');
+        }
+    }
+}
+
+/**
+ * Returns the id git gives a file with this content, which the contents API reports as its sha
+ */
+const getGitBlobSha = async (content: ArrayBuffer): Promise<string> => {
+    const header = new TextEncoder().encode(`blob ${content.byteLength}\0`);
+    const data = new Uint8Array(header.byteLength + content.byteLength);
+    data.set(header);
+    data.set(new Uint8Array(content), header.byteLength);
+    return Array.from(new Uint8Array(await crypto.subtle.digest('SHA-1', data)))
+        .map(byte => `0${byte.toString(16)}`.slice(-2))
+        .join('');
+};
+
+/**
+ * Git Repository Provider
+ * Commits each upload through the "create file contents" REST API of GitHub or Gitea.
+ * Existing files are never overwritten: uploads under a name already in the repository fail with
+ * a conflict, and the upload is tried again under a name with a unique suffix.
+ */
+export class GitStorageProvider implements StorageProvider {
+    private readonly host: GitHostType;
+    private readonly apiUrl: string;
+    private readonly webUrl: string;
+    private readonly owner: string;
+    private readonly repo: string;
+    private readonly branch: string;
+    private readonly pathPrefix: string;
+    private readonly token: string;
+    private readonly commitMessage: string;
+    private readonly urlType: GitUrlType;
+    private readonly customBaseUrl: string | null;
+
+    /**
+     * @param config.apiUrl - Gitea server URL, or the API URL of GitHub Enterprise (e.g. https://github.example.com/api/v3);
+     *                        api.github.com when empty
+     * @param config.repository - Repository as owner/repo
+     * @param config.pathPrefix - Folder inside the repository that object keys are relative to (optional)
+     * @param config.commitMessage - Commit message template, supports {filename}, {key} and {date}
+     * @param config.customBaseUrl - Pages or custom domain serving the repository root, used by the custom URL type
+     */
+    constructor(config: {
+        host: GitHostType;
+        apiUrl?: string | null;
+        repository: string;
+        branch?: string;
+        pathPrefix?: string;
+        token: string;
+        commitMessage?: string;
+        urlType: GitUrlType;
+        customBaseUrl?: string | null;
+    }) {
+        const serverUrl = normalizeOptionalBaseUrl(config.apiUrl || null);
+        this.host = config.host;
+        if (config.host === 'gitea') {
+            this.apiUrl = `${serverUrl}/api/v1`;
+            this.webUrl = serverUrl || '';
+        } else {
+            this.apiUrl = serverUrl || 'https://api.github.com';
+            this.webUrl = serverUrl ? serverUrl.replace(/\/api\/v3$/, '') : 'https://github.com';
+        }
+        [this.owner, this.repo] = config.repository.trim().split('/');
+        this.branch = config.branch?.trim() || 'main';
+        this.pathPrefix = (config.pathPrefix || '').trim().replace(/^\/+|\/+$/g, '');
+        this.token = config.token.trim();
+        this.commitMessage = config.commitMessage || 'Upload {filename} via Pasterly';
+        this.urlType = config.urlType;
+        this.customBaseUrl = normalizeOptionalBaseUrl(config.customBaseUrl || null);
+    }
+
+    private getRepositoryPath(key: string): string {
+        return this.pathPrefix ? `${this.pathPrefix}/${key}` : key;
+    }
+
+    private getContentsUrl(key: string): string {
+        return `${this.apiUrl}/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}/contents/${encodeKeyForUrl(this.getRepositoryPath(key))}`;
+    }
+
+    private getHeaders(): Record<string, string> {
+        if (this.host === 'gitea') {
+            return { 'Authorization': `token ${this.token}` };
+        }
+        return { 'Authorization': `Bearer ${this.token}`, 'Accept': 'application/vnd.github+json' };
+    }
+
+    private buildPublicUrl(key: string): string {
+        const path = encodeKeyForUrl(this.getRepositoryPath(key));
+        switch (this.urlType) {
+            case 'jsdelivr':
+                return `https://cdn.jsdelivr.net/gh/${this.owner}/${this.repo}@${this.branch}/${path}`;
+            case 'custom':
+                return `${this.customBaseUrl}/${path}`;
+            default:
+                if (this.host === 'gitea') {
+                    return `${this.webUrl}/${this.owner}/${this.repo}/raw/branch/${this.branch}/${path}`;
+                }
+                if (this.webUrl === 'https://github.com') {
+                    return `https://raw.githubusercontent.com/${this.owner}/${this.repo}/${this.branch}/${path}`;
+                }
+                return `${this.webUrl}/${this.owner}/${this.repo}/raw/${this.branch}/${path}`;
+        }
+    }
+
+    private renderCommitMessage(template: string, fileName: string, key: string): string {
+        return template
+            .replace(/\{filename\}/g, fileName)
+            .replace(/\{key\}/g, key)
+            .replace(/\{date\}/g, moment().format('YYYY-MM-DD'));
+    }
+
+    private async getFileSha(key: string): Promise<string | null> {
+        const response = await requestUrl({
+            url: `${this.getContentsUrl(key)}?ref=${encodeURIComponent(this.branch)}`,
+            method: 'GET',
+            headers: this.getHeaders(),
+            throw: false,
+        });
+        if (response.status === 404) {
+            return null;
+        }
+        if (response.status >= 200 && response.status < 300) {
+            // A directory lists its entries instead
+            return Array.isArray(response.json) ? null : response.json.sha;
+        }
+        throw new Error(`Git lookup failed with status ${response.status}`);
+    }
+
+    public async getExistingUrl(key: string): Promise<string | null> {
+        return (await this.getFileSha(key)) ? this.buildPublicUrl(key) : null;
+    }
+
+    public async deleteImage(key: string): Promise<void> {
+        try {
+            const sha = await this.getFileSha(key);
+            // Already gone counts as deleted
+            if (!sha) {
+                return;
+            }
+            const fileName = key.split('/').pop() || key;
+            const response = await requestUrl({
+                url: this.getContentsUrl(key),
+                method: 'DELETE',
+                headers: this.getHeaders(),
+                contentType: 'application/json',
+                body: JSON.stringify({
+                    message: `Delete ${fileName} via Pasterly`,
+                    sha,
+                    branch: this.branch,
+                }),
+                throw: false,
+            });
+            if (response.status < 200 || response.status >= 300) {
+                throw new Error(`Delete failed with status ${response.status}`);
+            }
         } catch (error) {
             const message = error instanceof Error ? error.message : 'Unknown error';
-            throw new Error(`Failed to upload to S3-compatible storage: ${message}. Check your credentials, endpoint, and bucket permissions.`);
+            throw new Error(`Failed to delete from git repository: ${message}. Check that your token can write to the repository.`);
+        }
+    }
+
+    public async getPrivateUrl(key: string): Promise<string> {
+        if (this.host === 'gitea') {
+            return toObjectUrl(await requestUrl({
+                url: `${this.apiUrl}/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}/raw/${encodeKeyForUrl(this.getRepositoryPath(key))}?ref=${encodeURIComponent(this.branch)}`,
+                method: 'GET',
+                headers: this.getHeaders(),
+                throw: false,
+            }));
+        }
+        return toObjectUrl(await requestUrl({
+            url: `${this.getContentsUrl(key)}?ref=${encodeURIComponent(this.branch)}`,
+            method: 'GET',
+            headers: { ...this.getHeaders(), 'Accept': 'application/vnd.github.raw' },
+            throw: false,
+        }));
+    }
+
+    public async uploadImage(file: File, key: string, options: UploadOptions = {}): Promise<string> {
+        try {
+            throwIfCancelled(options.signal);
+            const content = await file.arrayBuffer();
+            const response = await cancellable(requestUrl({
+                url: this.getContentsUrl(key),
+                // GitHub creates or updates with PUT, Gitea creates with POST
+                method: this.host === 'gitea' ? 'POST' : 'PUT',
+                headers: this.getHeaders(),
+                contentType: 'application/json',
+                body: JSON.stringify({
+                    message: this.renderCommitMessage(this.commitMessage, file.name, this.getRepositoryPath(key)),
+                    content: arrayBufferToBase64(content),
+                    branch: this.branch,
+                }),
+                throw: false,
+            }), options.signal);
+
+            if (response.status >= 200 && response.status < 300) {
+                options.onProgress?.(file.size, file.size);
+                return this.buildPublicUrl(key);
+            }
+            // Both hosts answer 422 when the file exists, since no sha of the file to replace was sent
+            const existingSha = response.status === 422 ? await this.getFileSha(key) : null;
+            if (existingSha) {
+                // An earlier attempt that timed out or was cancelled cannot be aborted and may have committed this very file
+                if (existingSha === await getGitBlobSha(content)) {
+                    options.onProgress?.(file.size, file.size);
+                    return this.buildPublicUrl(key);
+                }
+                throw new UploadError('conflict', `${this.getRepositoryPath(key)} already exists in the repository with other content`, { status: response.status });
+            }
+            throw createHttpError(response.status, response.headers);
+        } catch (error) {
+            if (error instanceof UploadCancelledError) {
+                throw error;
+            }
+            throw toUploadError(error, 'git repository');
         }
     }
 }
@@ -302,21 +1246,54 @@ export class S3CompatibleStorageProvider implements StorageProvider {
  * Factory function to create the appropriate storage provider
  */
 export function createStorageProvider(
-    type: 'firebase' | 'gcs' | 's3',
+    type: StorageType,
     config: {
         firebaseBucketUrl?: string;
         gcsBucketName?: string;
         gcsAccessToken?: string;
         gcsCdnBaseUrl?: string;
-        gcsUseGcloudCli?: boolean;
+        gcsAuthType?: GCSAuthType;
+        gcsServiceAccountKey?: string;
+        gcsGcloudPath?: string;
         s3BucketName?: string;
         s3Region?: string;
         s3Endpoint?: string;
+        s3CredentialSource?: S3CredentialSource;
+        s3AwsProfile?: string;
         s3AccessKeyId?: string;
         s3SecretAccessKey?: string;
         s3SessionToken?: string;
         s3PublicBaseUrl?: string;
         s3ForcePathStyle?: boolean;
+        webdavUrl?: string;
+        webdavAuthType?: WebDAVAuthType;
+        webdavUsername?: string;
+        webdavPassword?: string;
+        webdavToken?: string;
+        webdavPublicBaseUrl?: string;
+        customUrl?: string;
+        customMethod?: string;
+        customBodyType?: CustomHttpBodyType;
+        customFieldName?: string;
+        customHeaders?: string;
+        customResponseUrlPath?: string;
+        customResponseUrlRegex?: string;
+        azureAccountName?: string;
+        azureContainer?: string;
+        azureAuthType?: AzureAuthType;
+        azureSasToken?: string;
+        azureAccountKey?: string;
+        azureEndpoint?: string;
+        azureCdnBaseUrl?: string;
+        gitHost?: GitHostType;
+        gitApiUrl?: string;
+        gitRepository?: string;
+        gitBranch?: string;
+        gitPathPrefix?: string;
+        gitToken?: string;
+        gitCommitMessage?: string;
+        gitUrlType?: GitUrlType;
+        gitCustomBaseUrl?: string;
     }
 ): StorageProvider {
     switch (type) {
@@ -330,16 +1307,21 @@ export function createStorageProvider(
             if (!config.gcsBucketName) {
                 throw new Error('GCS bucket name is required');
             }
-            // When using gcloud CLI, access token is not required
-            if (!config.gcsUseGcloudCli && !config.gcsAccessToken) {
-                throw new Error('GCS access token is required when gcloud CLI is disabled');
+            // Only the manual token auth type needs a stored access token
+            if ((config.gcsAuthType || 'token') === 'token' && !config.gcsAccessToken) {
+                throw new Error('GCS access token is required for token authentication');
             }
-            return new GCSStorageProvider(
-                config.gcsBucketName,
-                config.gcsAccessToken || null,
-                config.gcsCdnBaseUrl || null,
-                config.gcsUseGcloudCli || false
-            );
+            if (config.gcsAuthType === 'serviceAccount' && !config.gcsServiceAccountKey) {
+                throw new Error('GCS service account key is required for service account authentication');
+            }
+            return new GCSStorageProvider({
+                bucketName: config.gcsBucketName,
+                authType: config.gcsAuthType || 'token',
+                accessToken: config.gcsAccessToken || null,
+                serviceAccountKey: config.gcsServiceAccountKey,
+                gcloudPath: config.gcsGcloudPath,
+                cdnBaseUrl: config.gcsCdnBaseUrl || null,
+            });
 
         case 's3':
             if (!config.s3BucketName) {
@@ -348,13 +1330,16 @@ export function createStorageProvider(
             if (!config.s3Region) {
                 throw new Error('S3 region is required');
             }
-            if (!config.s3AccessKeyId || !config.s3SecretAccessKey) {
+            // Environment and shared profile credentials are read when the first request is signed
+            if ((config.s3CredentialSource || 'settings') === 'settings' && (!config.s3AccessKeyId || !config.s3SecretAccessKey)) {
                 throw new Error('S3 access key ID and secret access key are required');
             }
             return new S3CompatibleStorageProvider({
                 bucketName: config.s3BucketName,
                 region: config.s3Region,
                 endpoint: config.s3Endpoint || null,
+                credentialSource: config.s3CredentialSource || 'settings',
+                awsProfile: config.s3AwsProfile,
                 accessKeyId: config.s3AccessKeyId,
                 secretAccessKey: config.s3SecretAccessKey,
                 sessionToken: config.s3SessionToken || null,
@@ -362,6 +1347,84 @@ export function createStorageProvider(
                 forcePathStyle: config.s3ForcePathStyle || false,
             });
 
+        case 'webdav':
+            if (!config.webdavUrl) {
+                throw new Error('WebDAV URL is required');
+            }
+            if (config.webdavAuthType === 'basic' && !config.webdavUsername) {
+                throw new Error('WebDAV username is required for basic authentication');
+            }
+            if (config.webdavAuthType === 'bearer' && !config.webdavToken) {
+                throw new Error('WebDAV token is required for bearer authentication');
+            }
+            return new WebDAVStorageProvider({
+                url: config.webdavUrl,
+                authType: config.webdavAuthType || 'basic',
+                username: config.webdavUsername,
+                password: config.webdavPassword,
+                token: config.webdavToken,
+                publicBaseUrl: config.webdavPublicBaseUrl || null,
+            });
+
+        case 'custom':
+            if (!config.customUrl) {
+                throw new Error('Custom upload URL is required');
+            }
+            return new CustomHttpStorageProvider({
+                url: config.customUrl,
+                method: config.customMethod || 'POST',
+                bodyType: config.customBodyType || 'multipart',
+                fieldName: config.customFieldName,
+                headers: config.customHeaders,
+                responseUrlPath: config.customResponseUrlPath,
+                responseUrlRegex: config.customResponseUrlRegex,
+            });
+
+        case 'azure':
+            if (!config.azureAccountName || !config.azureContainer) {
+                throw new Error('Azure storage account and container are required');
+            }
+            if (config.azureAuthType === 'sharedKey' ? !config.azureAccountKey : !config.azureSasToken) {
+                throw new Error('Azure SAS token or account key is required');
+            }
+            return new AzureBlobStorageProvider({
+                accountName: config.azureAccountName,
+                container: config.azureContainer,
+                authType: config.azureAuthType || 'sas',
+                sasToken: config.azureSasToken,
+                accountKey: config.azureAccountKey,
+                endpoint: config.azureEndpoint || null,
+                cdnBaseUrl: config.azureCdnBaseUrl || null,
+            });
+
+        case 'git':
+            if (!config.gitRepository || !/^[^/\s]+\/[^/\s]+$/.test(config.gitRepository.trim())) {
+                throw new Error('Git repository is required as owner/repo');
+            }
+            if (!config.gitToken) {
+                throw new Error('Git access token is required');
+            }
+            if (config.gitHost === 'gitea' && !config.gitApiUrl) {
+                throw new Error('Gitea server URL is required');
+            }
+            if (config.gitUrlType === 'jsdelivr' && config.gitHost === 'gitea') {
+                throw new Error('jsDelivr URLs are only available for GitHub repositories');
+            }
+            if (config.gitUrlType === 'custom' && !config.gitCustomBaseUrl) {
+                throw new Error('Custom base URL is required for custom git URLs');
+            }
+            return new GitStorageProvider({
+                host: config.gitHost || 'github',
+                apiUrl: config.gitApiUrl || null,
+                repository: config.gitRepository,
+                branch: config.gitBranch,
+                pathPrefix: config.gitPathPrefix,
+                token: config.gitToken,
+                commitMessage: config.gitCommitMessage,
+                urlType: config.gitUrlType || 'raw',
+                customBaseUrl: config.gitCustomBaseUrl || null,
+            });
+
         default:
             throw new Error(`Unknown storage type: ${type}`);
     }
@@ -1,29 +1,160 @@
+import { ImageOutputFormat } from './imageProcessing';
+import { AttachmentRule, DEFAULT_ATTACHMENT_RULES } from './attachments';
+import { DEFAULT_LINK_TEMPLATE } from './linkTemplate';
+import { DEFAULT_OBJECT_KEY_TEMPLATE } from './objectKey';
+
 /**
  * Storage Provider Interface
  * Defines the contract for different storage backends (Firebase, GCS, etc.)
  */
 export interface StorageProvider {
     /**
-     * Uploads an image file to the storage backend
-     * @param file - The image file to upload
+     * Uploads a file to the storage backend
+     * @param file - The image or attachment to upload
+     * @param key - Object key (path inside the bucket) built from the key template
+     * @param options - Progress callback and cancellation signal
      * @returns Promise that resolves to the public URL of the uploaded image
      */
-    uploadImage(file: File): Promise<string>;
+    uploadImage(file: File, key: string, options?: UploadOptions): Promise<string>;
+
+    /**
+     * Looks up an object that was uploaded before
+     * @param key - Object key to look up
+     * @returns Promise that resolves to the public URL of the object, or null if it does not exist
+     */
+    getExistingUrl?(key: string): Promise<string | null>;
+
+    /**
+     * Deletes an uploaded object; deleting a missing object succeeds
+     * @param key - Object key to delete
+     */
+    deleteImage?(key: string): Promise<void>;
+
+    /**
+     * Lists the objects stored under a prefix
+     * @param prefix - Key prefix such as `pasterly/`
+     */
+    listObjects?(prefix: string): Promise<StoredObject[]>;
+
+    /**
+     * Returns a short-lived URL that displays a private object: a signed URL,
+     * or an object URL of the downloaded content for providers that cannot sign
+     * @param key - Object key to display
+     */
+    getPrivateUrl?(key: string): Promise<string>;
+}
+
+/**
+ * An object found by listing a bucket
+ */
+export interface StoredObject {
+    key: string;
+    size: number;
+}
+
+/**
+ * Optional hooks for a single upload
+ */
+export interface UploadOptions {
+    /** Called as bytes are transferred; providers without streaming support report once at the end */
+    onProgress?: (loaded: number, total: number) => void;
+    /** Aborting rejects the upload with UploadCancelledError */
+    signal?: AbortSignal;
+}
+
+/**
+ * An uploaded object recorded in the content-hash index
+ */
+export interface UploadedObject {
+    url: string;
+    key: string;
+}
+
+/**
+ * Second copy of an upload, kept in the backup profile under the same key
+ */
+export interface BackupCopy {
+    profileId: string;
+    key: string;
+    url: string;
+}
+
+/**
+ * An upload recorded in the upload history
+ */
+export interface UploadHistoryEntry {
+    id: string;
+    url: string;
+    key: string;
+    profileId: string;
+    storageType: StorageType;
+    size: number;        // Bytes uploaded, after image processing
+    mimeType?: string;   // Missing for entries recorded before attachments were supported, which are all images
+    width?: number;      // Pixel dimensions of images
+    height?: number;
+    uploadedAt: number;
+    sourcePath: string;  // Note the image was uploaded for, empty when unknown
+    backup?: BackupCopy; // Mirror copy in the backup profile
 }
 
 /**
  * Storage type enumeration
  */
-export type StorageType = 'firebase' | 'gcs' | 's3';
+export type StorageType = 'firebase' | 'gcs' | 's3' | 'webdav' | 'custom' | 'azure' | 'git';
 
 /**
- * Settings interface for the Pasterly plugin
- * Defines configuration options for storage integration
+ * How the GCS provider obtains access tokens
  */
-export interface PasterlySettings {
-    // Common settings
+export type GCSAuthType = 'token' | 'gcloud' | 'serviceAccount';
+
+/**
+ * Where the S3 provider reads its credentials from
+ */
+export type S3CredentialSource = 'settings' | 'environment' | 'sharedProfile';
+
+/**
+ * Where credentials of storage profiles are kept
+ */
+export type SecretStorageMode = 'device' | 'passphrase' | 'plaintext';
+
+/**
+ * Authentication methods supported by the WebDAV provider
+ */
+export type WebDAVAuthType = 'basic' | 'bearer' | 'none';
+
+/**
+ * Request body formats supported by the custom HTTP provider
+ */
+export type CustomHttpBodyType = 'multipart' | 'raw';
+
+/**
+ * Authentication methods supported by the Azure Blob Storage provider
+ */
+export type AzureAuthType = 'sas' | 'sharedKey';
+
+/**
+ * How a profile uses its backup profile: only when an upload fails, or for a second copy of every upload
+ */
+export type BackupMode = 'failover' | 'mirror';
+
+/**
+ * Git hosts whose contents API the git provider can commit through
+ */
+export type GitHostType = 'github' | 'gitea';
+
+/**
+ * Which URL the git provider writes into notes
+ */
+export type GitUrlType = 'raw' | 'jsdelivr' | 'custom';
+
+/**
+ * Provider configuration of a storage profile
+ */
+export interface StorageConfig {
     storageType: StorageType;
-    imageSize: number;
+    privateMode: boolean;           // Store pasterly:// references and resolve them at render time
+    backupProfileId: string;        // Profile used when uploads fail or mirrored to, empty for none
+    backupMode: BackupMode;
 
     // Firebase settings
     firebaseBucketUrl: string;
@@ -32,33 +163,194 @@ export interface PasterlySettings {
     gcsAccessToken: string;
     gcsBucketName: string;
     gcsCdnBaseUrl: string;      // CDN base URL (e.g., https://cdn.example.com)
-    gcsUseGcloudCli: boolean;   // Use gcloud CLI for auto-auth
+    gcsAuthType: GCSAuthType;
+    gcsServiceAccountKey: string;   // Service account key file contents (JSON)
+    gcsGcloudPath: string;          // gcloud binary, auto-detected when empty
 
     // S3-compatible settings
     s3BucketName: string;
     s3Region: string;
     s3Endpoint: string;
+    s3CredentialSource: S3CredentialSource;
+    s3AwsProfile: string;           // Profile in ~/.aws/credentials, "default" when empty
     s3AccessKeyId: string;
     s3SecretAccessKey: string;
     s3SessionToken: string;
     s3PublicBaseUrl: string;
     s3ForcePathStyle: boolean;
+
+    // WebDAV settings
+    webdavUrl: string;              // Collection URL uploads are stored under
+    webdavAuthType: WebDAVAuthType;
+    webdavUsername: string;
+    webdavPassword: string;
+    webdavToken: string;            // Bearer token
+    webdavPublicBaseUrl: string;    // Public URL used in markdown output
+
+    // Custom HTTP settings
+    customUrl: string;              // Upload endpoint, may contain {key} and {filename}
+    customMethod: string;           // POST or PUT
+    customBodyType: CustomHttpBodyType;
+    customFieldName: string;        // Multipart form field holding the file
+    customHeaders: string;          // One "Name: Value" header per line
+    customResponseUrlPath: string;  // JSON path to the URL in the response (e.g. data.link)
+    customResponseUrlRegex: string; // Regex fallback matched against the raw response
+
+    // Azure Blob Storage settings
+    azureAccountName: string;
+    azureContainer: string;
+    azureAuthType: AzureAuthType;
+    azureSasToken: string;
+    azureAccountKey: string;
+    azureEndpoint: string;          // Custom blob endpoint (e.g. Azurite), optional
+    azureCdnBaseUrl: string;        // CDN or custom domain base URL, optional
+
+    // Git repository settings
+    gitHost: GitHostType;
+    gitApiUrl: string;              // Gitea instance URL, or GitHub Enterprise API URL; github.com when empty
+    gitRepository: string;          // owner/repo
+    gitBranch: string;
+    gitPathPrefix: string;          // Folder inside the repository uploads are committed to
+    gitToken: string;
+    gitCommitMessage: string;       // Supports {filename}, {key} and {date}
+    gitUrlType: GitUrlType;
+    gitCustomBaseUrl: string;       // Pages or custom domain serving the repository root
 }
 
-export const DEFAULT_SETTINGS: PasterlySettings = {
+/**
+ * A named storage configuration, e.g. a personal R2 bucket or the team GCS bucket
+ */
+export interface StorageProfile extends StorageConfig {
+    id: string;
+    name: string;
+}
+
+/**
+ * What a routing rule matches against
+ */
+export type RoutingRuleType = 'folder' | 'tag' | 'frontmatter';
+
+/**
+ * Routes uploads from matching notes to a storage profile
+ */
+export interface RoutingRule {
+    type: RoutingRuleType;
+    value: string;      // Folder path, tag without "#", or frontmatter "key: value"
+    profileId: string;
+}
+
+/**
+ * Settings interface for the Pasterly plugin
+ * Defines configuration options for storage integration
+ */
+export interface PasterlySettings {
+    // Storage profiles
+    profiles: StorageProfile[];
+    defaultProfileId: string;
+    routingRules: RoutingRule[];       // Evaluated in order, first match wins
+    secretStorage: SecretStorageMode;  // Keeps credentials out of data.json unless set to plaintext
+
+    // Common settings
+    imageSize: number;                 // Value of {size} in the link template, 0 for the image width
+    linkTemplate: string;              // e.g. ![{alt}]({url}) or <img src="{url}" width="{width}">
+    promptForAltText: boolean;         // Ask for alt text once an upload finishes
+    objectKeyTemplate: string;         // e.g. {vault}/{date:YYYY/MM}/{hash}.{ext}
+    deduplicateUploads: boolean;       // Reuse earlier uploads of identical content
+    trashMigratedLocalImages: boolean; // Trash local images after "Upload local images" rewrote their links
+
+    // Image processing settings
+    imageMaxWidth: number;            // 0 for no limit
+    imageMaxHeight: number;           // 0 for no limit
+    imageOutputFormat: ImageOutputFormat;
+    imageQuality: number;             // 1-100
+    stripImageMetadata: boolean;      // Remove EXIF/GPS metadata before upload
+
+    // Attachment settings
+    attachmentRules: AttachmentRule[]; // Non-image files matching a rule are uploaded, first match wins
+
+    // Reliability settings
+    uploadTimeoutSeconds: number;    // How long an upload attempt may go without progress, 0 for none
+    uploadRetries: number;           // Retries of network errors, timeouts, rate limits and server errors
+
+    // Offline queue settings
+    queueFailedUploads: boolean;     // Save images locally and retry when offline or on failure
+    trashQueuedLocalCopies: boolean; // Move the local copy to trash after a queued upload succeeds
+}
+
+export const DEFAULT_STORAGE_CONFIG: StorageConfig = {
     storageType: 'firebase',
-    imageSize: 0,
+    privateMode: false,
+    backupProfileId: '',
+    backupMode: 'failover',
     firebaseBucketUrl: '',
     gcsAccessToken: '',
     gcsBucketName: '',
     gcsCdnBaseUrl: '',
-    gcsUseGcloudCli: true,
+    gcsAuthType: 'gcloud',
+    gcsServiceAccountKey: '',
+    gcsGcloudPath: '',
     s3BucketName: '',
     s3Region: 'us-east-1',
     s3Endpoint: '',
+    s3CredentialSource: 'settings',
+    s3AwsProfile: '',
     s3AccessKeyId: '',
     s3SecretAccessKey: '',
     s3SessionToken: '',
     s3PublicBaseUrl: '',
     s3ForcePathStyle: false,
+    webdavUrl: '',
+    webdavAuthType: 'basic',
+    webdavUsername: '',
+    webdavPassword: '',
+    webdavToken: '',
+    webdavPublicBaseUrl: '',
+    customUrl: '',
+    customMethod: 'POST',
+    customBodyType: 'multipart',
+    customFieldName: 'file',
+    customHeaders: '',
+    customResponseUrlPath: '',
+    customResponseUrlRegex: '',
+    azureAccountName: '',
+    azureContainer: '',
+    azureAuthType: 'sas',
+    azureSasToken: '',
+    azureAccountKey: '',
+    azureEndpoint: '',
+    azureCdnBaseUrl: '',
+    gitHost: 'github',
+    gitApiUrl: '',
+    gitRepository: '',
+    gitBranch: 'main',
+    gitPathPrefix: '',
+    gitToken: '',
+    gitCommitMessage: 'Upload {filename} via Pasterly',
+    gitUrlType: 'raw',
+    gitCustomBaseUrl: '',
+};
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_SETTINGS: PasterlySettings = {
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Default', ...DEFAULT_STORAGE_CONFIG }],
+    defaultProfileId: DEFAULT_PROFILE_ID,
+    routingRules: [],
+    secretStorage: 'device',
+    imageSize: 0,
+    linkTemplate: DEFAULT_LINK_TEMPLATE,
+    promptForAltText: false,
+    objectKeyTemplate: DEFAULT_OBJECT_KEY_TEMPLATE,
+    deduplicateUploads: true,
+    trashMigratedLocalImages: false,
+    imageMaxWidth: 0,
+    imageMaxHeight: 0,
+    imageOutputFormat: 'original',
+    imageQuality: 85,
+    stripImageMetadata: false,
+    attachmentRules: DEFAULT_ATTACHMENT_RULES,
+    uploadTimeoutSeconds: 120,
+    uploadRetries: 3,
+    queueFailedUploads: true,
+    trashQueuedLocalCopies: true,
 };
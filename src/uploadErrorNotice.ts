@@ -0,0 +1,99 @@
+import { Notice } from 'obsidian';
+import { UploadError } from './errors';
+import { StorageProfile } from './types';
+
+/**
+ * A button on an error notice that fixes or works around the failure
+ */
+export interface UploadErrorAction {
+	label: string;
+	run: () => void;
+}
+
+export interface UploadErrorActions {
+	openSettings: () => void;
+	/** Only offered for GCS profiles that authenticate with the gcloud CLI */
+	runGcloudLogin: () => void;
+}
+
+/**
+ * Explains what most likely went wrong and how to fix it
+ */
+export const getUploadErrorHint = (error: UploadError, profile: StorageProfile | null): string => {
+	switch (error.kind) {
+		case 'auth':
+			if (profile?.storageType === 'gcs' && profile.gcsAuthType === 'gcloud') {
+				return 'The gcloud login expired. Sign in again with "gcloud auth login".';
+			}
+			if (profile?.storageType === 'gcs' && profile.gcsAuthType === 'token') {
+				return 'The GCS access token expired, they only last an hour. Use a service account key or the gcloud CLI to refresh tokens automatically.';
+			}
+			return 'The credentials were rejected or have expired. Update them in settings.';
+		case 'permission':
+			return 'The credentials are valid but not allowed to write here. Grant them write access to the bucket, container or repository.';
+		case 'notFound':
+			return 'The bucket, container, repository or upload URL does not exist. Check its name in settings.';
+		case 'network':
+			return 'The storage provider could not be reached. Check your internet connection.';
+		case 'timeout':
+			return 'The upload made no progress for too long. Raise the upload timeout in settings for large files or slow connections.';
+		case 'payloadTooLarge':
+			return 'The file is larger than the storage provider accepts. Lower the maximum image size or the size limit of its attachment rule.';
+		case 'conflict':
+			return 'Other files already exist under this name. Add {hash}, {uuid}, {timestamp} or {random} to the object key template so every upload gets its own name.';
+		case 'rateLimited':
+			return 'The storage provider is limiting requests. Wait a moment before pasting again.';
+		case 'server':
+			return 'The storage provider is having problems. Try again later, or set a backup profile that takes over meanwhile.';
+		default:
+			return '';
+	}
+};
+
+const getUploadErrorActions = (error: UploadError, profile: StorageProfile | null, actions: UploadErrorActions): UploadErrorAction[] => {
+	switch (error.kind) {
+		case 'auth':
+			return profile?.storageType === 'gcs' && profile.gcsAuthType === 'gcloud'
+				? [{ label: 'Re-run gcloud auth login', run: actions.runGcloudLogin }, { label: 'Open settings', run: actions.openSettings }]
+				: [{ label: 'Open settings', run: actions.openSettings }];
+		case 'permission':
+		case 'notFound':
+		case 'timeout':
+		case 'payloadTooLarge':
+		case 'server':
+			return [{ label: 'Open settings', run: actions.openSettings }];
+		default:
+			return [];
+	}
+};
+
+/**
+ * Reports a failed upload with a hint and buttons for the fix that matches the kind of failure
+ * @param summary - Shown instead of the error message, e.g. when the file was queued for a retry
+ */
+export const showUploadErrorNotice = (error: Error, profile: StorageProfile | null, actions: UploadErrorActions, summary?: string) => {
+	const uploadError = error instanceof UploadError ? error : new UploadError('unknown', error.message);
+	const hint = getUploadErrorHint(uploadError, profile);
+	const buttons = getUploadErrorActions(uploadError, profile, actions);
+
+	let notice: Notice | null = null;
+	const fragment = createFragment((el) => {
+		el.createDiv({ text: summary ?? (uploadError.message || 'Failed to upload. Please check your storage settings') });
+		if (hint) {
+			el.createDiv({ text: hint, cls: 'pasterly-notice-hint' });
+		}
+		if (buttons.length > 0) {
+			const buttonsEl = el.createDiv({ cls: 'pasterly-notice-actions' });
+			buttons.forEach((button) => {
+				buttonsEl.createEl('button', { text: button.label }).addEventListener('click', (event) => {
+					// The notice hides itself on any click, the button must not count as a second one
+					event.stopPropagation();
+					notice?.hide();
+					button.run();
+				});
+			});
+		}
+	});
+	// Notices with a fix stay until dismissed, the user may need a moment to read them
+	notice = new Notice(fragment, buttons.length > 0 ? 0 : 8000);
+};
@@ -0,0 +1,137 @@
+import { ItemView, MarkdownView, Notice, WorkspaceLeaf, moment, setIcon } from 'obsidian';
+import { UploadHistoryEntry } from './types';
+import { ConfirmModal } from './confirmModal';
+
+export const UPLOAD_HISTORY_VIEW_TYPE = 'pasterly-upload-history';
+
+interface UploadHistoryViewOptions {
+	/** Returns the recorded uploads, oldest first */
+	getEntries: () => UploadHistoryEntry[];
+	/** Returns the display name of the profile an entry was uploaded with */
+	getProfileName: (entry: UploadHistoryEntry) => string;
+	/** Returns the URL written into notes for an entry, a pasterly:// reference for private profiles */
+	getLinkUrl: (entry: UploadHistoryEntry) => string;
+	/** Returns the markdown inserted for an entry */
+	formatLink: (entry: UploadHistoryEntry) => string;
+	/** Whether the entry's provider can delete objects */
+	canDelete: (entry: UploadHistoryEntry) => boolean;
+	/** Deletes the remote object and forgets the entry */
+	deleteEntry: (entry: UploadHistoryEntry) => Promise<void>;
+}
+
+const formatSize = (bytes: number): string => {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * Sidebar listing everything Pasterly has uploaded, newest first
+ */
+export class UploadHistoryView extends ItemView {
+	constructor(leaf: WorkspaceLeaf, private readonly options: UploadHistoryViewOptions) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return UPLOAD_HISTORY_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Upload history';
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	/**
+	 * Rebuilds the list from the current history
+	 */
+	render() {
+		const container = this.contentEl;
+		container.empty();
+
+		const entries = this.options.getEntries().slice().reverse();
+		if (entries.length === 0) {
+			container.createEl('p', { text: 'Nothing uploaded yet.', cls: 'pane-empty' });
+			return;
+		}
+
+		entries.forEach(entry => this.renderEntry(container.createDiv(), entry));
+	}
+
+	private renderEntry(itemEl: HTMLElement, entry: UploadHistoryEntry) {
+		itemEl.addClass('pasterly-history-item');
+		if (!entry.mimeType || entry.mimeType.startsWith('image/')) {
+			itemEl.createEl('img', { cls: 'pasterly-history-thumbnail', attr: { src: this.options.getLinkUrl(entry), loading: 'lazy', alt: '' } });
+		} else {
+			setIcon(itemEl.createDiv({ cls: 'pasterly-history-thumbnail' }), entry.mimeType.startsWith('video/') ? 'file-video' : entry.mimeType.startsWith('audio/') ? 'file-audio' : 'file');
+		}
+
+		const detailsEl = itemEl.createDiv({ cls: 'pasterly-history-details' });
+		detailsEl.createDiv({ text: entry.key.split('/').pop() || entry.key, cls: 'pasterly-history-name', attr: { title: entry.key } });
+		detailsEl.createDiv({
+			text: `${this.options.getProfileName(entry)} · ${formatSize(entry.size)} · ${moment(entry.uploadedAt).format('YYYY-MM-DD HH:mm')}`,
+			cls: 'setting-item-description',
+		});
+		if (entry.sourcePath) {
+			detailsEl.createDiv({ text: entry.sourcePath, cls: 'setting-item-description' });
+		}
+
+		const actionsEl = detailsEl.createDiv();
+		this.addEntryButton(actionsEl, 'copy', 'Copy markdown link', async () => {
+			await navigator.clipboard.writeText(this.options.formatLink(entry));
+			new Notice('Link copied');
+		});
+		this.addEntryButton(actionsEl, 'image-plus', 'Insert at cursor', () => this.insertAtCursor(entry));
+		if (entry.sourcePath) {
+			this.addEntryButton(actionsEl, 'file-text', 'Open source note', () => this.app.workspace.openLinkText(entry.sourcePath, '', false));
+		}
+		if (this.options.canDelete(entry)) {
+			this.addEntryButton(actionsEl, 'trash', 'Delete from storage', () => this.confirmDelete(entry));
+		}
+	}
+
+	private addEntryButton(containerEl: HTMLElement, icon: string, label: string, onClick: () => void | Promise<void>) {
+		const button = containerEl.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+		setIcon(button, icon);
+		button.addEventListener('click', () => onClick());
+	}
+
+	private insertAtCursor(entry: UploadHistoryEntry) {
+		// The sidebar has focus now, so use the editor that was active before it
+		const view = this.app.workspace.getMostRecentLeaf()?.view;
+		if (!(view instanceof MarkdownView)) {
+			new Notice('Open a note to insert the image into');
+			return;
+		}
+		view.editor.replaceSelection(this.options.formatLink(entry));
+		view.editor.focus();
+	}
+
+	private confirmDelete(entry: UploadHistoryEntry) {
+		new ConfirmModal(this.app, {
+			title: 'Delete uploaded file',
+			message: `"${entry.key}" will be deleted from storage. Notes that still link to it will show a broken link.`,
+			confirmText: 'Delete',
+			onConfirm: async () => {
+				try {
+					await this.options.deleteEntry(entry);
+					new Notice('Image deleted from storage');
+				} catch (error) {
+					console.error('Failed to delete uploaded image:', error);
+					new Notice(error instanceof Error ? error.message : 'Failed to delete image');
+				}
+			},
+		}).open();
+	}
+}
@@ -0,0 +1,202 @@
+import { App, TFile, moment } from 'obsidian';
+import { findNotesEmbedding, getExtensionForMimeType, readVaultFile, replaceEmbedsInNote } from './localImages';
+
+/**
+ * An image saved to the vault that still has to be uploaded
+ */
+export interface PendingUpload {
+	id: string;
+	localPath: string;      // Vault path of the locally saved image
+	sourcePath: string;     // Note the image was pasted into
+	createdAt: number;
+	attempts: number;
+	nextAttemptAt: number;
+	lastError?: string;
+	uploadedMarkdown?: string;  // Set once uploaded while no local embed could be replaced yet, so the retry does not upload again
+	replaceAttempts?: number;   // Attempts to replace the local embed after the upload succeeded
+}
+
+interface UploadQueueOptions {
+	/** Uploads the file and returns the markdown that replaces the local embed */
+	upload: (file: File, sourcePath: string) => Promise<string>;
+	/** Persists the queue together with the plugin data */
+	persist: () => Promise<void>;
+	/** Whether the local copy should be moved to trash once every embed was replaced */
+	shouldTrashLocalCopy: () => boolean;
+}
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+// Attempts to find the local embed after uploading, covering a metadata cache that has not indexed the note yet
+const MAX_REPLACE_ATTEMPTS = 3;
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 30 minutes
+ */
+const getRetryDelay = (attempts: number): number => {
+	return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+};
+
+const generateId = (): string => {
+	return `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+};
+
+/**
+ * Persistent queue of images that could not be uploaded at paste time.
+ * Images are stored as regular vault attachments and embedded locally until
+ * the upload succeeds, after which the local embed is swapped for the remote link.
+ */
+export class UploadQueue {
+	private entries: PendingUpload[];
+	private processing = false;
+
+	constructor(private readonly app: App, entries: PendingUpload[], private readonly options: UploadQueueOptions) {
+		this.entries = entries;
+	}
+
+	get pending(): PendingUpload[] {
+		return this.entries;
+	}
+
+	/**
+	 * Saves the file into the vault next to the note and queues it for upload
+	 * @returns Markdown embed pointing at the local copy
+	 */
+	async enqueue(file: File, sourcePath: string, error?: Error): Promise<string> {
+		const extension = file.name.includes('.') ? file.name.split('.').pop() : getExtensionForMimeType(file.type);
+		// Attachments keep their name, it is what the link to them shows
+		const fileName = file.type.startsWith('image/') || !file.name
+			? `Pasted image ${moment().format('YYYYMMDDHHmmss')}.${extension}`
+			: file.name;
+		const localPath = await this.app.fileManager.getAvailablePathForAttachment(fileName, sourcePath);
+		const localFile = await this.app.vault.createBinary(localPath, await file.arrayBuffer());
+
+		const now = Date.now();
+		this.entries.push({
+			id: generateId(),
+			localPath: localFile.path,
+			sourcePath,
+			createdAt: now,
+			attempts: error ? 1 : 0,
+			nextAttemptAt: error ? now + getRetryDelay(1) : now,
+			lastError: error?.message,
+		});
+		await this.options.persist();
+
+		const link = this.app.fileManager.generateMarkdownLink(localFile, sourcePath);
+		return link.startsWith('!') ? link : `!${link}`;
+	}
+
+	/**
+	 * Keeps queued paths in sync when the user moves or renames files
+	 */
+	async handleRename(newPath: string, oldPath: string) {
+		let changed = false;
+		this.entries.forEach((entry) => {
+			if (entry.localPath === oldPath) {
+				entry.localPath = newPath;
+				changed = true;
+			}
+			if (entry.sourcePath === oldPath) {
+				entry.sourcePath = newPath;
+				changed = true;
+			}
+		});
+		if (changed) {
+			await this.options.persist();
+		}
+	}
+
+	/**
+	 * Makes every queued upload due immediately
+	 */
+	async retryAll() {
+		this.entries.forEach(entry => entry.nextAttemptAt = 0);
+		return this.process();
+	}
+
+	/**
+	 * Uploads every due entry
+	 * @returns Number of entries that were uploaded successfully
+	 */
+	async process(): Promise<number> {
+		if (this.processing || !navigator.onLine) {
+			return 0;
+		}
+
+		this.processing = true;
+		let uploaded = 0;
+		try {
+			const due = this.entries.filter(entry => entry.nextAttemptAt <= Date.now());
+			for (const entry of due) {
+				if (!navigator.onLine) {
+					break;
+				}
+				if (await this.processEntry(entry)) {
+					uploaded++;
+				}
+			}
+		} finally {
+			this.processing = false;
+		}
+		return uploaded;
+	}
+
+	private async processEntry(entry: PendingUpload): Promise<boolean> {
+		const localFile = this.app.vault.getFileByPath(entry.localPath);
+		if (!localFile) {
+			// The local copy was deleted, nothing left to upload
+			await this.remove(entry);
+			return false;
+		}
+
+		try {
+			const markdown = entry.uploadedMarkdown ?? await this.options.upload(await readVaultFile(this.app, localFile), entry.sourcePath);
+			const replaced = await this.replaceLocalEmbeds(localFile, entry.sourcePath, markdown);
+			if (replaced === 0) {
+				entry.replaceAttempts = (entry.replaceAttempts ?? 0) + 1;
+				// Once the cache had time to catch up, an image no note embeds anymore was removed by the user
+				const removed = entry.uploadedMarkdown !== undefined && findNotesEmbedding(this.app, localFile).length === 0;
+				if (removed || entry.replaceAttempts >= MAX_REPLACE_ATTEMPTS) {
+					console.warn(`Stopped retrying the queued upload of ${localFile.path}, no embed of it was found to replace. The local copy was kept.`);
+					await this.remove(entry);
+					return false;
+				}
+				// The metadata cache may not list the embed yet. The entry and the local copy stay until the link is in the note.
+				entry.uploadedMarkdown = markdown;
+				throw new Error(`Uploaded, but no embed of ${localFile.path} was found to replace yet`);
+			}
+			if (this.options.shouldTrashLocalCopy()) {
+				await this.app.fileManager.trashFile(localFile);
+			}
+			await this.remove(entry);
+			return true;
+		} catch (error) {
+			entry.attempts++;
+			entry.nextAttemptAt = Date.now() + getRetryDelay(entry.attempts);
+			entry.lastError = error instanceof Error ? error.message : String(error);
+			console.error('Queued image upload failed:', error);
+			await this.options.persist();
+			return false;
+		}
+	}
+
+	private async replaceLocalEmbeds(localFile: TFile, sourcePath: string, markdown: string): Promise<number> {
+		const notes = findNotesEmbedding(this.app, localFile);
+		const sourceNote = this.app.vault.getFileByPath(sourcePath);
+		if (sourceNote && !notes.includes(sourceNote)) {
+			notes.push(sourceNote);
+		}
+
+		let replaced = 0;
+		for (const note of notes) {
+			replaced += await replaceEmbedsInNote(this.app, note, localFile, markdown);
+		}
+		return replaced;
+	}
+
+	private async remove(entry: PendingUpload) {
+		this.entries = this.entries.filter(item => item !== entry);
+		await this.options.persist();
+	}
+}
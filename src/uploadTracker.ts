@@ -0,0 +1,147 @@
+import { Notice } from 'obsidian';
+import { UploadOptions } from './types';
+
+/**
+ * Link target that identifies the placeholder of an in-flight upload, e.g. `![Uploading...](#pasterly-upload-k2x9a1)`
+ */
+const PLACEHOLDER_TARGET_PREFIX = '#pasterly-upload-';
+const PLACEHOLDER_PATTERN = /!\[Uploading\.\.\.\]\(#pasterly-upload-([a-z0-9]+)\)/;
+
+// Quick uploads finish before a progress notice would be worth showing
+const PROGRESS_NOTICE_DELAY = 1000;
+
+interface ActiveUpload {
+	fileName: string;
+	controller: AbortController;
+	loaded: number;
+	total: number;
+	notice: Notice | null;
+	noticeTimeout: number | null;
+}
+
+/**
+ * Returns the placeholder markdown inserted while the upload with the given id is running
+ */
+export const getPlaceholder = (id: string) => `![Uploading...](${PLACEHOLDER_TARGET_PREFIX}${id})`;
+
+/**
+ * Returns the upload ids of every placeholder in the text, in order
+ */
+export const findPlaceholderIds = (text: string): string[] => {
+	const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+	const ids: string[] = [];
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		ids.push(match[1]);
+	}
+	return ids;
+};
+
+const formatProgress = (upload: ActiveUpload) => {
+	const percent = upload.total > 0 ? Math.floor((upload.loaded / upload.total) * 100) : 0;
+	return `Uploading ${upload.fileName}... ${percent}%`;
+};
+
+/**
+ * Keeps track of in-flight uploads so they can report progress and be cancelled
+ */
+export class UploadTracker {
+	private uploads = new Map<string, ActiveUpload>();
+
+	/**
+	 * Registers an upload that has not started yet; it can be cancelled from now on
+	 * @returns Upload id used in the placeholder
+	 */
+	register(file: File): string {
+		let id: string;
+		do {
+			id = `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+		} while (this.uploads.has(id));
+
+		this.uploads.set(id, {
+			fileName: file.name,
+			controller: new AbortController(),
+			loaded: 0,
+			total: file.size,
+			notice: null,
+			noticeTimeout: null,
+		});
+		return id;
+	}
+
+	/**
+	 * Marks the upload as started and returns the options to hand to the storage provider
+	 */
+	begin(id: string): UploadOptions {
+		const upload = this.uploads.get(id);
+		if (!upload) {
+			return {};
+		}
+
+		upload.noticeTimeout = window.setTimeout(() => {
+			upload.noticeTimeout = null;
+			upload.notice = new Notice(formatProgress(upload), 0);
+			upload.notice.messageEl.createEl('button', { text: 'Cancel', cls: 'mod-warning pasterly-cancel-upload' }, (button) => {
+				button.addEventListener('click', (evt) => {
+					// Clicking a notice hides it, keep it until the upload actually stops
+					evt.stopPropagation();
+					this.cancel(id);
+				});
+			});
+		}, PROGRESS_NOTICE_DELAY);
+
+		return {
+			signal: upload.controller.signal,
+			onProgress: (loaded, total) => {
+				upload.loaded = loaded;
+				upload.total = total;
+				upload.notice?.messageEl.firstChild?.replaceWith(formatProgress(upload));
+			},
+		};
+	}
+
+	/**
+	 * Stops tracking an upload and hides its progress notice
+	 */
+	finish(id: string) {
+		const upload = this.uploads.get(id);
+		if (!upload) {
+			return;
+		}
+		if (upload.noticeTimeout !== null) {
+			window.clearTimeout(upload.noticeTimeout);
+		}
+		upload.notice?.hide();
+		this.uploads.delete(id);
+	}
+
+	isActive(id: string): boolean {
+		return this.uploads.has(id);
+	}
+
+	get size(): number {
+		return this.uploads.size;
+	}
+
+	/**
+	 * Aborts an upload; it rejects with UploadCancelledError and its placeholder is removed
+	 */
+	cancel(id: string): boolean {
+		const upload = this.uploads.get(id);
+		if (!upload) {
+			return false;
+		}
+		upload.controller.abort();
+		return true;
+	}
+
+	/**
+	 * Aborts every tracked upload
+	 * @returns Number of uploads that were cancelled
+	 */
+	cancelAll(): number {
+		const ids = Array.from(this.uploads.keys());
+		ids.forEach(id => this.cancel(id));
+		return ids.length;
+	}
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { AttachmentRule, DEFAULT_ATTACHMENT_RULES, findAttachmentRule, formatAttachmentLink, isWithinSizeLimit } from '../src/attachments';
+
+const createFile = (name: string, type: string, size = 1) => new File([new Uint8Array(size)], name, { type });
+
+describe('findAttachmentRule', () => {
+	it('matches exact types, wildcards and comma-separated lists', () => {
+		expect(findAttachmentRule(DEFAULT_ATTACHMENT_RULES, createFile('a.pdf', 'application/pdf'))).toBe(DEFAULT_ATTACHMENT_RULES[0]);
+		expect(findAttachmentRule(DEFAULT_ATTACHMENT_RULES, createFile('a.mp4', 'VIDEO/MP4'))).toBe(DEFAULT_ATTACHMENT_RULES[1]);
+		expect(findAttachmentRule(DEFAULT_ATTACHMENT_RULES, createFile('a.zip', 'application/x-zip-compressed'))).toBe(DEFAULT_ATTACHMENT_RULES[3]);
+	});
+
+	it('returns null when no rule matches', () => {
+		expect(findAttachmentRule(DEFAULT_ATTACHMENT_RULES, createFile('a.txt', 'text/plain'))).toBeNull();
+	});
+
+	it('lets files of unknown type match catch-all rules only', () => {
+		const rules: AttachmentRule[] = [{ mimeType: 'application/*', output: 'link', maxSizeMB: 0 }];
+		expect(findAttachmentRule(rules, createFile('a.bin', ''))).toBe(rules[0]);
+		expect(findAttachmentRule(DEFAULT_ATTACHMENT_RULES, createFile('a.bin', ''))).toBeNull();
+	});
+
+	it('takes the first matching rule', () => {
+		const rules: AttachmentRule[] = [
+			{ mimeType: 'video/webm', output: 'link', maxSizeMB: 10 },
+			{ mimeType: 'video/*', output: 'embed', maxSizeMB: 0 },
+		];
+		expect(findAttachmentRule(rules, createFile('a.webm', 'video/webm'))).toBe(rules[0]);
+	});
+});
+
+describe('isWithinSizeLimit', () => {
+	it('compares the size in megabytes, 0 meaning no limit', () => {
+		const file = createFile('a.pdf', 'application/pdf', 2 * 1024 * 1024);
+		expect(isWithinSizeLimit({ mimeType: '*/*', output: 'link', maxSizeMB: 1 }, file)).toBe(false);
+		expect(isWithinSizeLimit({ mimeType: '*/*', output: 'link', maxSizeMB: 2 }, file)).toBe(true);
+		expect(isWithinSizeLimit({ mimeType: '*/*', output: 'link', maxSizeMB: 0 }, file)).toBe(true);
+	});
+});
+
+describe('formatAttachmentLink', () => {
+	it('writes embeds and escaped links', () => {
+		expect(formatAttachmentLink('https://x/a.mp4', 'a.mp4', 'embed')).toBe('![](https://x/a.mp4)');
+		expect(formatAttachmentLink('https://x/a.pdf', 'Report [final].pdf', 'link')).toBe('[Report \\[final\\].pdf](https://x/a.pdf)');
+	});
+});
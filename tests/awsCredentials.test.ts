@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseSharedCredentials } from '../src/awsCredentials';
+
+const CREDENTIALS = `
+# Comments are skipped
+[default]
+aws_access_key_id = AKIADEFAULT
+aws_secret_access_key = secret/default=
+
+[ work ]
+AWS_ACCESS_KEY_ID=AKIAWORK
+aws_secret_access_key=secret-work
+aws_session_token = token-work
+; another comment
+
+[incomplete]
+aws_access_key_id = AKIAONLY
+`;
+
+describe('parseSharedCredentials', () => {
+	it('reads the requested profile', () => {
+		expect(parseSharedCredentials(CREDENTIALS, 'default')).toEqual({
+			accessKeyId: 'AKIADEFAULT',
+			secretAccessKey: 'secret/default=',
+			sessionToken: undefined,
+		});
+	});
+
+	it('accepts spaced section names, upper-case keys and session tokens', () => {
+		expect(parseSharedCredentials(CREDENTIALS.replace(/\n/g, '\r\n'), 'work')).toEqual({
+			accessKeyId: 'AKIAWORK',
+			secretAccessKey: 'secret-work',
+			sessionToken: 'token-work',
+		});
+	});
+
+	it('returns null for missing or incomplete profiles', () => {
+		expect(parseSharedCredentials(CREDENTIALS, 'incomplete')).toBeNull();
+		expect(parseSharedCredentials(CREDENTIALS, 'missing')).toBeNull();
+	});
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadCancelledError, UploadError, createHttpError, getErrorKindForStatus, toUploadError, withRetry } from '../src/errors';
+
+describe('getErrorKindForStatus', () => {
+	it('maps statuses to kinds', () => {
+		expect(getErrorKindForStatus(401)).toBe('auth');
+		expect(getErrorKindForStatus(403)).toBe('permission');
+		expect(getErrorKindForStatus(404)).toBe('notFound');
+		expect(getErrorKindForStatus(413)).toBe('payloadTooLarge');
+		expect(getErrorKindForStatus(429)).toBe('rateLimited');
+		expect(getErrorKindForStatus(503)).toBe('server');
+		expect(getErrorKindForStatus(400)).toBe('unknown');
+	});
+});
+
+describe('createHttpError', () => {
+	it('prefers the provider error code over the status', () => {
+		const error = createHttpError(403, {}, 'AuthenticationFailed');
+		expect(error.kind).toBe('auth');
+		expect(error.message).toBe('status 403 (AuthenticationFailed)');
+	});
+
+	it('reads Retry-After in seconds', () => {
+		expect(createHttpError(429, { 'retry-after': '3' }).details.retryAfterMs).toBe(3000);
+	});
+});
+
+describe('toUploadError', () => {
+	it('keeps UploadErrors as they are', () => {
+		const error = new UploadError('conflict', 'taken');
+		expect(toUploadError(error, 'S3')).toBe(error);
+	});
+
+	it('classifies provider error codes and names', () => {
+		expect(toUploadError({ name: 'NoSuchBucket', message: 'missing' }, 'S3').kind).toBe('notFound');
+		expect(toUploadError({ code: 'storage/unauthorized', message: 'denied' }, 'Firebase').kind).toBe('permission');
+	});
+
+	it('falls back to the HTTP status of SDK errors', () => {
+		expect(toUploadError({ name: 'Unknown', $metadata: { httpStatusCode: 503 } }, 'S3').kind).toBe('server');
+	});
+
+	it('recognizes network failures by their message', () => {
+		const error = toUploadError(new Error('net::ERR_INTERNET_DISCONNECTED'), 'GCS');
+		expect(error.kind).toBe('network');
+		expect(error.isTransient).toBe(true);
+		expect(error.message).toBe('Failed to upload to GCS: net::ERR_INTERNET_DISCONNECTED');
+	});
+
+	it('leaves other errors unknown and not transient', () => {
+		const error = toUploadError('something broke', 'WebDAV');
+		expect(error.kind).toBe('unknown');
+		expect(error.isTransient).toBe(false);
+	});
+});
+
+describe('withRetry', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubGlobal('window', globalThis);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.unstubAllGlobals();
+	});
+
+	const options = { retries: 2, timeoutMs: 0, target: 'S3' };
+
+	it('retries transient failures until an attempt succeeds', async () => {
+		const attempt = vi.fn()
+			.mockRejectedValueOnce(new UploadError('server', 'status 503'))
+			.mockResolvedValueOnce('https://example.com/a.png');
+		const onRetry = vi.fn();
+		const result = withRetry(attempt, { ...options, onRetry });
+		await vi.runAllTimersAsync();
+		expect(await result).toBe('https://example.com/a.png');
+		expect(attempt).toHaveBeenCalledTimes(2);
+		expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ kind: 'server' }), 1, expect.any(Number));
+	});
+
+	it('does not retry permanent failures', async () => {
+		const attempt = vi.fn().mockRejectedValue(new UploadError('auth', 'status 401'));
+		await expect(withRetry(attempt, options)).rejects.toMatchObject({ kind: 'auth' });
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives up after the configured retries', async () => {
+		const attempt = vi.fn().mockRejectedValue(new UploadError('network', 'offline'));
+		const result = withRetry(attempt, options).catch((error: UploadError) => error);
+		await vi.runAllTimersAsync();
+		expect(await result).toMatchObject({ kind: 'network' });
+		expect(attempt).toHaveBeenCalledTimes(3);
+	});
+
+	it('waits at least as long as the provider asked', async () => {
+		const attempt = vi.fn()
+			.mockRejectedValueOnce(new UploadError('rateLimited', 'status 429', { retryAfterMs: 10000 }))
+			.mockResolvedValueOnce('done');
+		const onRetry = vi.fn();
+		const result = withRetry(attempt, { ...options, onRetry });
+		await vi.runAllTimersAsync();
+		await result;
+		expect(onRetry.mock.calls[0][2]).toBe(10000);
+	});
+
+	it('fails an attempt that makes no progress within the timeout', async () => {
+		const attempt = vi.fn((signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+			signal.addEventListener('abort', () => reject(new Error('aborted')));
+		}));
+		const result = withRetry(attempt, { ...options, retries: 0, timeoutMs: 5000 }).catch((error: UploadError) => error);
+		await vi.advanceTimersByTimeAsync(5000);
+		expect(await result).toMatchObject({ kind: 'timeout' });
+	});
+
+	it('restarts the timeout whenever the attempt reports progress', async () => {
+		const attempt = vi.fn((signal: AbortSignal, onActivity: () => void) => new Promise<string>((resolve) => {
+			window.setTimeout(onActivity, 4000);
+			window.setTimeout(() => resolve('done'), 8000);
+		}));
+		const result = withRetry(attempt, { ...options, retries: 0, timeoutMs: 5000 });
+		await vi.advanceTimersByTimeAsync(8000);
+		expect(await result).toBe('done');
+	});
+
+	it('stops with UploadCancelledError when the signal aborts', async () => {
+		const controller = new AbortController();
+		const attempt = vi.fn().mockRejectedValue(new UploadError('server', 'status 500'));
+		const result = withRetry(attempt, { ...options, signal: controller.signal }).catch((error: Error) => error);
+		await vi.advanceTimersByTimeAsync(0);
+		controller.abort();
+		expect(await result).toBeInstanceOf(UploadCancelledError);
+		expect(attempt).toHaveBeenCalledTimes(1);
+	});
+});
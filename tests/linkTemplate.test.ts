@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { LINK_TEMPLATE_PRESETS, findLinkTemplatePreset, renderLinkTemplate } from '../src/linkTemplate';
+
+const context = { url: 'https://cdn.example.com/a.png', alt: 'A [draft] | v2', fileName: 'Diagram.PNG', width: 640, height: 480, size: 0 };
+
+describe('renderLinkTemplate', () => {
+	it('escapes alt text for markdown', () => {
+		expect(renderLinkTemplate(LINK_TEMPLATE_PRESETS.markdown.template, context)).toBe('![A \\[draft\\] \\| v2](https://cdn.example.com/a.png)');
+	});
+
+	it('escapes alt text for HTML templates', () => {
+		expect(renderLinkTemplate('<img src="{url}" alt="{alt}">', { ...context, alt: '"a" <b> & c' }))
+			.toBe('<img src="https://cdn.example.com/a.png" alt="&quot;a&quot; &lt;b&gt; &amp; c">');
+	});
+
+	it('uses the fixed size, or the image width without one', () => {
+		const template = LINK_TEMPLATE_PRESETS.markdownWidth.template;
+		expect(renderLinkTemplate(template, { ...context, alt: '', size: 300 })).toBe('![|300](https://cdn.example.com/a.png)');
+		expect(renderLinkTemplate(template, { ...context, alt: '' })).toBe('![|640](https://cdn.example.com/a.png)');
+	});
+
+	it('leaves out the size when no width is known', () => {
+		const template = LINK_TEMPLATE_PRESETS.markdownWidth.template;
+		expect(renderLinkTemplate(template, { ...context, alt: '', width: undefined, height: undefined })).toBe('![](https://cdn.example.com/a.png)');
+	});
+
+	it('fills in file variables and keeps unknown ones', () => {
+		expect(renderLinkTemplate('{filename} {ext} {width}x{height} {other}', context)).toBe('Diagram.PNG png 640x480 {other}');
+	});
+
+	it('formats dates', () => {
+		expect(renderLinkTemplate('{date:YYYY}', context)).toMatch(/^\d{4}$/);
+	});
+});
+
+describe('findLinkTemplatePreset', () => {
+	it('finds the preset a template came from', () => {
+		expect(findLinkTemplatePreset(LINK_TEMPLATE_PRESETS.figure.template)).toBe('figure');
+		expect(findLinkTemplatePreset('![{alt}]({url}) custom')).toBeNull();
+	});
+});
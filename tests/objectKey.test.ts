@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { addUniqueSuffix, buildObjectKey, getKeyTemplatePrefix, hashFile, isContentAddressedKeyTemplate, isUniqueKeyTemplate, isVaultScopedKeyTemplate } from '../src/objectKey';
+
+const HELLO_SHA256 = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+
+const createFile = (name: string, content = 'hello', type = 'image/png') => new File([content], name, { type });
+
+describe('hashFile', () => {
+	it('returns the hex SHA-256 of the content', async () => {
+		expect(await hashFile(createFile('a.png'))).toBe(HELLO_SHA256);
+	});
+});
+
+describe('buildObjectKey', () => {
+	const context = { file: createFile('My Diagram.PNG'), vaultName: 'Team Notes', notePath: 'Projects/Alpha/Plan.md' };
+
+	it('fills in note, vault and file variables', async () => {
+		const key = await buildObjectKey('{vault}/{notePath}/{noteName}/{originalName}.{ext}', context);
+		expect(key).toBe('Team-Notes/Projects/Alpha/Plan/Plan/My-Diagram.png');
+	});
+
+	it('uses the full or shortened content hash', async () => {
+		expect(await buildObjectKey('{hash}.{ext}', context)).toBe(`${HELLO_SHA256}.png`);
+		expect(await buildObjectKey('{hash:8}.{ext}', context)).toBe(`${HELLO_SHA256.substring(0, 8)}.png`);
+	});
+
+	it('prefers a precomputed hash', async () => {
+		expect(await buildObjectKey('{hash:6}', { ...context, hash: 'abcdef123456' })).toBe('abcdef');
+	});
+
+	it('formats dates and keeps their folders', async () => {
+		expect(await buildObjectKey('{date:YYYY/MM}/x', context)).toMatch(/^\d{4}\/\d{2}\/x$/);
+	});
+
+	it('drops empty, relative and leading segments', async () => {
+		expect(await buildObjectKey('/./a//../{originalName}.{ext}', context)).toBe('a/My-Diagram.png');
+	});
+
+	it('files notes without a path under unsorted', async () => {
+		expect(await buildObjectKey('{notePath}/{noteName}', { ...context, notePath: '' })).toBe('unsorted/unsorted');
+	});
+
+	it('keeps unknown variables as written', async () => {
+		expect(await buildObjectKey('{unknown}/{originalName}', context)).toBe('{unknown}/My-Diagram');
+	});
+
+	it('falls back to the default template', async () => {
+		expect(await buildObjectKey('  ', context)).toMatch(/^pasterly\/image_\d+_[a-z0-9]+\.png$/);
+	});
+});
+
+describe('isUniqueKeyTemplate', () => {
+	it('requires a variable that differs per upload', () => {
+		expect(isUniqueKeyTemplate('{originalName}.{ext}')).toBe(false);
+		expect(isUniqueKeyTemplate('{hash:8}.{ext}')).toBe(true);
+		expect(isUniqueKeyTemplate('{uuid}')).toBe(true);
+	});
+});
+
+describe('isContentAddressedKeyTemplate', () => {
+	it('accepts the full hash', () => {
+		expect(isContentAddressedKeyTemplate('{vault}/{hash}.{ext}')).toBe(true);
+		expect(isContentAddressedKeyTemplate('{hash:64}.{ext}')).toBe(true);
+	});
+
+	it('rejects a shortened hash, which can collide', () => {
+		expect(isContentAddressedKeyTemplate('{hash:8}.{ext}')).toBe(false);
+	});
+
+	it('rejects templates with per-upload variables', () => {
+		expect(isContentAddressedKeyTemplate('{hash}-{timestamp}.{ext}')).toBe(false);
+		expect(isContentAddressedKeyTemplate('{hash}-{random}.{ext}')).toBe(false);
+	});
+
+	it('rejects templates without a hash', () => {
+		expect(isContentAddressedKeyTemplate('{originalName}.{ext}')).toBe(false);
+	});
+});
+
+describe('getKeyTemplatePrefix', () => {
+	it('returns the fixed leading folders', () => {
+		expect(getKeyTemplatePrefix('pasterly/image_{timestamp}.{ext}', 'Vault')).toBe('pasterly/');
+		expect(getKeyTemplatePrefix('uploads/images/{hash}', 'Vault')).toBe('uploads/images/');
+	});
+
+	it('resolves the vault name', () => {
+		expect(getKeyTemplatePrefix('{vault}/{notePath}/{hash}', 'My Vault')).toBe('My-Vault/');
+	});
+
+	it('is empty when the first folder is not fixed', () => {
+		expect(getKeyTemplatePrefix('{notePath}/{hash}', 'Vault')).toBe('');
+		expect(getKeyTemplatePrefix('{hash}.{ext}', 'Vault')).toBe('');
+	});
+});
+
+describe('isVaultScopedKeyTemplate', () => {
+	it('requires {vault} among the fixed folders', () => {
+		expect(isVaultScopedKeyTemplate('{vault}/{hash}')).toBe(true);
+		expect(isVaultScopedKeyTemplate('images/{vault}/{hash}')).toBe(true);
+		expect(isVaultScopedKeyTemplate('pasterly/{hash}')).toBe(false);
+		expect(isVaultScopedKeyTemplate('{notePath}/{vault}/{hash}')).toBe(false);
+	});
+});
+
+describe('addUniqueSuffix', () => {
+	it('adds a suffix before the extension', () => {
+		expect(addUniqueSuffix('images/diagram.png')).toMatch(/^images\/diagram-[a-z0-9]+\.png$/);
+		expect(addUniqueSuffix('notes')).toMatch(/^notes-[a-z0-9]+$/);
+	});
+});
@@ -0,0 +1,32 @@
+// Stand-in for the parts of the Obsidian API the tested modules load. Only pure logic is tested,
+// so UI classes are empty and requests fail unless a test mocks them.
+import moment from 'moment';
+
+export { moment };
+
+export const Platform = { isDesktopApp: false, isMobile: false };
+
+export class App {}
+export class TFile {}
+export class Modal {}
+export class Setting {}
+export class Notice {}
+
+export const requestUrl = async () => {
+	throw new Error('requestUrl is not available in tests');
+};
+
+export const getAllTags = (cache) => {
+	const tags = (cache.tags ?? []).map(tag => tag.tag);
+	const frontmatterTags = cache.frontmatter?.tags ?? [];
+	return tags.concat((Array.isArray(frontmatterTags) ? frontmatterTags : [frontmatterTags]).map(tag => `#${tag}`));
+};
+
+export const getLinkpath = (linktext) => linktext.split('#')[0];
+
+export const arrayBufferToBase64 = (buffer) => Buffer.from(buffer).toString('base64');
+
+export const base64ToArrayBuffer = (base64) => {
+	const buffer = Buffer.from(base64, 'base64');
+	return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+};
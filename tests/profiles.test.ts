@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { App } from 'obsidian';
+import { createProfile, getStorageTarget, resolveProfile } from '../src/profiles';
+import { DEFAULT_SETTINGS, PasterlySettings, RoutingRule } from '../src/types';
+
+interface NoteCache {
+	frontmatter?: Record<string, unknown>;
+	tags?: { tag: string }[];
+}
+
+/**
+ * An app whose vault holds the given notes with their metadata
+ */
+const createApp = (notes: Record<string, NoteCache>) => ({
+	vault: { getFileByPath: (path: string) => notes[path] ? { path } : null },
+	metadataCache: { getFileCache: (file: { path: string }) => notes[file.path] },
+}) as unknown as App;
+
+const personal = { ...createProfile('Personal'), id: 'personal' };
+const team = { ...createProfile('Team'), id: 'team' };
+const archive = { ...createProfile('Archive'), id: 'archive' };
+
+const createSettings = (routingRules: RoutingRule[]): PasterlySettings => ({
+	...DEFAULT_SETTINGS,
+	profiles: [personal, team, archive],
+	defaultProfileId: 'personal',
+	routingRules,
+});
+
+describe('resolveProfile', () => {
+	const app = createApp({
+		'Work/Plan.md': { tags: [{ tag: '#project/alpha' }] },
+		'Work/Old.md': { frontmatter: { 'pasterly-profile': 'archive' } },
+		'Notes/Shared.md': { frontmatter: { status: ['draft', 'shared'] } },
+		'Notes/Private.md': {},
+	});
+
+	it('uses the profile named in the frontmatter first', () => {
+		expect(resolveProfile(app, createSettings([{ type: 'folder', value: 'Work', profileId: 'team' }]), 'Work/Old.md')).toBe(archive);
+	});
+
+	it('matches folder rules by path prefix', () => {
+		const settings = createSettings([{ type: 'folder', value: '/Work/', profileId: 'team' }]);
+		expect(resolveProfile(app, settings, 'Work/Plan.md')).toBe(team);
+		expect(resolveProfile(app, settings, 'Workshop/Plan.md')).toBe(personal);
+	});
+
+	it('matches nested tags of a tag rule', () => {
+		expect(resolveProfile(app, createSettings([{ type: 'tag', value: '#Project', profileId: 'team' }]), 'Work/Plan.md')).toBe(team);
+	});
+
+	it('matches frontmatter rules by key or by value', () => {
+		expect(resolveProfile(app, createSettings([{ type: 'frontmatter', value: 'status: shared', profileId: 'team' }]), 'Notes/Shared.md')).toBe(team);
+		expect(resolveProfile(app, createSettings([{ type: 'frontmatter', value: 'status', profileId: 'team' }]), 'Notes/Shared.md')).toBe(team);
+		expect(resolveProfile(app, createSettings([{ type: 'frontmatter', value: 'status: final', profileId: 'team' }]), 'Notes/Shared.md')).toBe(personal);
+	});
+
+	it('applies the first matching rule', () => {
+		const settings = createSettings([
+			{ type: 'folder', value: 'Work', profileId: 'archive' },
+			{ type: 'tag', value: 'project', profileId: 'team' },
+		]);
+		expect(resolveProfile(app, settings, 'Work/Plan.md')).toBe(archive);
+	});
+
+	it('falls back to the default profile', () => {
+		expect(resolveProfile(app, createSettings([]), 'Notes/Private.md')).toBe(personal);
+		expect(resolveProfile(app, createSettings([{ type: 'folder', value: 'Work', profileId: 'deleted' }]), 'Work/Plan.md')).toBe(personal);
+		expect(resolveProfile(app, { ...createSettings([]), defaultProfileId: 'deleted' }, '')).toBe(personal);
+	});
+});
+
+describe('getStorageTarget', () => {
+	it('changes when the bucket changes but not with credentials', () => {
+		const profile = { ...createProfile('S3'), storageType: 's3' as const, s3BucketName: 'images', s3Region: 'eu-west-1' };
+		expect(getStorageTarget({ ...profile, s3SecretAccessKey: 'other' })).toBe(getStorageTarget(profile));
+		expect(getStorageTarget({ ...profile, s3BucketName: 'backups' })).not.toBe(getStorageTarget(profile));
+	});
+});
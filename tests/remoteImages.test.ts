@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { findExternalImageLinks, getClipboardImageUrls } from '../src/remoteImages';
+import { createProfile } from '../src/profiles';
+
+const gcsProfile = { ...createProfile('GCS'), storageType: 'gcs' as const, gcsBucketName: 'team-images' };
+const gitProfile = { ...createProfile('Git'), storageType: 'git' as const, gitRepository: 'acme/notes' };
+
+describe('findExternalImageLinks', () => {
+	it('finds markdown image links with titles and angle brackets', () => {
+		const content = [
+			'![chart](https://example.com/chart.png "Sales")',
+			'![](<https://example.com/photo.jpg>)',
+			'[not an image](https://example.com/page)',
+		].join('\n');
+		expect(findExternalImageLinks(content, [], new Set())).toEqual([
+			{ original: '![chart](https://example.com/chart.png "Sales")', url: 'https://example.com/chart.png' },
+			{ original: '![](<https://example.com/photo.jpg>)', url: 'https://example.com/photo.jpg' },
+		]);
+	});
+
+	it('skips links into the storage of any profile', () => {
+		const content = [
+			'![](https://storage.googleapis.com/team-images/a.png)',
+			'![](https://raw.githubusercontent.com/acme/notes/main/b.png)',
+			'![](https://cdn.jsdelivr.net/gh/acme/notes@main/c.png)',
+			'![](https://example.com/d.png)',
+		].join('\n');
+		expect(findExternalImageLinks(content, [gcsProfile, gitProfile], new Set()).map(link => link.url)).toEqual(['https://example.com/d.png']);
+	});
+
+	it('skips URLs uploaded before', () => {
+		const content = '![](https://example.com/a.png) ![](https://example.com/b.png)';
+		expect(findExternalImageLinks(content, [], new Set(['https://example.com/a.png'])).map(link => link.url)).toEqual(['https://example.com/b.png']);
+	});
+
+	it('ignores local embeds and non-http schemes', () => {
+		expect(findExternalImageLinks('![[local.png]] ![](pasterly://team/a.png) ![](attachments/b.png)', [], new Set())).toEqual([]);
+	});
+});
+
+describe('getClipboardImageUrls', () => {
+	const createClipboard = (text: string) => ({ getData: (type: string) => type === 'text/plain' ? text : '' }) as unknown as DataTransfer;
+
+	it('takes a copied URL of an image file', () => {
+		expect(getClipboardImageUrls(createClipboard(' https://example.com/img/cat.JPG?size=large '))).toEqual(['https://example.com/img/cat.JPG?size=large']);
+	});
+
+	it('ignores URLs of pages and plain text', () => {
+		expect(getClipboardImageUrls(createClipboard('https://example.com/article'))).toEqual([]);
+		expect(getClipboardImageUrls(createClipboard('see https://example.com/cat.png'))).toEqual([]);
+		expect(getClipboardImageUrls(null)).toEqual([]);
+	});
+});
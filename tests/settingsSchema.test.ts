@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { SETTINGS_VERSION, SavedSettings, applySettingsDefaults, migrateSettings, validateSettings } from '../src/settingsSchema';
+import { DEFAULT_SETTINGS, PasterlySettings } from '../src/types';
+import { LINK_TEMPLATE_PRESETS } from '../src/linkTemplate';
+
+describe('migrateSettings', () => {
+	it('moves settings saved before profiles into a default profile', () => {
+		const data: SavedSettings = {
+			storageType: 's3',
+			s3BucketName: 'images',
+			s3Endpoint: 'minio.example.com/',
+			gcsUseGcloudCli: true,
+			uploadedHashes: { abc: { url: 'https://x/a.png', key: 'a.png' } },
+			imageSize: 300,
+		};
+		expect(migrateSettings(data)).toBe(true);
+
+		expect(data.settingsVersion).toBe(SETTINGS_VERSION);
+		expect(data.defaultProfileId).toBe('default');
+		expect(data.storageType).toBeUndefined();
+		expect(data.profiles).toEqual([{
+			id: 'default',
+			name: 'Default',
+			storageType: 's3',
+			s3BucketName: 'images',
+			s3Endpoint: 'https://minio.example.com',
+			gcsAuthType: 'gcloud',
+		}]);
+		expect(data.uploadedHashes).toEqual({ 'default/abc': { url: 'https://x/a.png', key: 'a.png' } });
+		expect(data.linkTemplate).toBe(LINK_TEMPLATE_PRESETS.markdownWidth.template);
+	});
+
+	it('only runs migrations newer than the saved version', () => {
+		const data: SavedSettings = {
+			settingsVersion: 3,
+			profiles: [{ id: 'a', name: 'A', gcsUseGcloudCli: false, s3PublicBaseUrl: 'cdn.example.com' }],
+		};
+		migrateSettings(data);
+		expect(data.profiles).toEqual([{ id: 'a', name: 'A', gcsUseGcloudCli: false, s3PublicBaseUrl: 'https://cdn.example.com' }]);
+	});
+
+	it('keeps an existing link template', () => {
+		const data: SavedSettings = { profiles: [], linkTemplate: '![{alt}]({url})', imageSize: 300 };
+		migrateSettings(data);
+		expect(data.linkTemplate).toBe('![{alt}]({url})');
+	});
+
+	it('reports nothing to save for current settings', () => {
+		expect(migrateSettings({ settingsVersion: SETTINGS_VERSION, profiles: [] })).toBe(false);
+	});
+
+	it('leaves settings of a newer version untouched', () => {
+		const data: SavedSettings = { settingsVersion: SETTINGS_VERSION + 1, storageType: 's3' };
+		expect(migrateSettings(data)).toBe(false);
+		expect(data).toEqual({ settingsVersion: SETTINGS_VERSION + 1, storageType: 's3' });
+	});
+});
+
+describe('applySettingsDefaults', () => {
+	it('fills in missing settings without sharing the defaults', () => {
+		const settings = applySettingsDefaults({ profiles: [{ id: 'a', name: 'A' }] } as Partial<PasterlySettings>);
+		expect(settings.objectKeyTemplate).toBe(DEFAULT_SETTINGS.objectKeyTemplate);
+		expect(settings.profiles[0].storageType).toBe(DEFAULT_SETTINGS.profiles[0].storageType);
+		settings.attachmentRules[0].maxSizeMB = 1;
+		expect(DEFAULT_SETTINGS.attachmentRules[0].maxSizeMB).not.toBe(1);
+	});
+});
+
+describe('validateSettings', () => {
+	const validSettings = (): SavedSettings => ({
+		defaultProfileId: 'a',
+		profiles: [{ id: 'a', name: 'A', storageType: 's3' }, { id: 'b', name: 'B', backupProfileId: 'a' }],
+		routingRules: [{ type: 'folder', value: 'Work', profileId: 'b' }],
+		attachmentRules: [{ mimeType: 'video/*', output: 'embed', maxSizeMB: 100 }],
+	});
+
+	it('accepts valid settings', () => {
+		expect(validateSettings(validSettings())).toEqual([]);
+	});
+
+	it('reports wrong types, unknown values and negative numbers', () => {
+		const data = { ...validSettings(), uploadRetries: -1, deduplicateUploads: 'yes', imageOutputFormat: 'bmp' };
+		expect(validateSettings(data)).toEqual([
+			'deduplicateUploads must be a boolean',
+			'imageOutputFormat must be one of original, webp, jpeg, avif',
+			'uploadRetries must not be negative',
+		]);
+	});
+
+	it('checks every profile', () => {
+		const data = validSettings();
+		data.profiles = [{ id: 'a', name: 'A', storageType: 'ftp' }, { id: 'a', name: ' ' }, { id: 'c', name: 'C', backupProfileId: 'x' }];
+		expect(validateSettings(data)).toEqual([
+			'profiles[0].storageType must be one of firebase, gcs, s3, webdav, custom, azure, git',
+			'profiles[1].id "a" is used by another profile',
+			'profiles[1].name must be a non-empty string',
+			'profiles[2].backupProfileId refers to a profile that does not exist',
+			'routingRules[0].profileId refers to a profile that does not exist',
+		]);
+	});
+
+	it('requires at least one profile', () => {
+		expect(validateSettings({ profiles: [] })).toEqual(['profiles must be a list with at least one profile']);
+	});
+
+	it('checks references and rules', () => {
+		const data = {
+			...validSettings(),
+			defaultProfileId: 'missing',
+			routingRules: [{ type: 'path', value: 'x', profileId: 'a' }],
+			attachmentRules: [{ mimeType: 'video/*', output: 'inline', maxSizeMB: 1 }],
+		};
+		expect(validateSettings(data)).toEqual([
+			'defaultProfileId refers to a profile that does not exist',
+			'routingRules[0] must have a type of folder, tag or frontmatter and a value',
+			'attachmentRules[0] must have a mimeType, an output of embed or link and a maxSizeMB of 0 or more',
+		]);
+	});
+});
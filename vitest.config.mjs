@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+	resolve: {
+		// The obsidian package only ships types, tests run against a small stand-in
+		alias: { obsidian: fileURLToPath(new URL('./tests/obsidian.mjs', import.meta.url)) },
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+	},
+});